@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE `drawingpath` MODIFY `points` LONGTEXT NOT NULL;
+
+-- AlterTable
+-- 先以可空列加入，回填后再改为 NOT NULL，已有数据的表也能迁移
+ALTER TABLE `DrawingSession` ADD COLUMN `ownerId` VARCHAR(191) NULL;
+
+-- 已有会话归属于最早在其中绘制路径的用户
+UPDATE `DrawingSession` s
+SET s.`ownerId` = (
+    SELECT p.`userId` FROM `DrawingPath` p
+    WHERE p.`sessionId` = s.`id`
+    ORDER BY p.`createdAt` ASC
+    LIMIT 1
+);
+
+-- 没有任何路径的会话无法确定归属，直接删除
+DELETE FROM `DrawingSession` WHERE `ownerId` IS NULL;
+
+ALTER TABLE `DrawingSession` MODIFY `ownerId` VARCHAR(191) NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE `DrawingSession` ADD CONSTRAINT `DrawingSession_ownerId_fkey` FOREIGN KEY (`ownerId`) REFERENCES `User`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE `RoomRevision` (
+    `id` VARCHAR(191) NOT NULL,
+    `roomId` VARCHAR(191) NOT NULL,
+    `version` INTEGER NOT NULL,
+    `authorId` VARCHAR(191) NULL,
+    `label` VARCHAR(191) NULL,
+    `data` LONGTEXT NOT NULL,
+    `layerOrder` TEXT NULL,
+    `size` INTEGER NOT NULL,
+    `elementCount` INTEGER NULL,
+    `addedCount` INTEGER NULL,
+    `removedCount` INTEGER NULL,
+    `changedCount` INTEGER NULL,
+    `restoredFrom` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `RoomRevision_roomId_version_key`(`roomId`, `version`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `RoomRevision` ADD CONSTRAINT `RoomRevision_roomId_fkey` FOREIGN KEY (`roomId`) REFERENCES `Room`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `RoomRevision` ADD CONSTRAINT `RoomRevision_authorId_fkey` FOREIGN KEY (`authorId`) REFERENCES `User`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
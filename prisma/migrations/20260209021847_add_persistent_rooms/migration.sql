@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE `room` ADD COLUMN `archivedAt` DATETIME(3) NULL,
+    ADD COLUMN `lastActiveAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    ADD COLUMN `persistent` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `room` ADD COLUMN `successorId` VARCHAR(191) NULL;
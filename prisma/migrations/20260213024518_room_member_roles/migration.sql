@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `roommember` MODIFY `role` VARCHAR(191) NOT NULL DEFAULT 'editor';
+
+-- Existing "member" rows become editors
+UPDATE `roommember` SET `role` = 'editor' WHERE `role` = 'member';
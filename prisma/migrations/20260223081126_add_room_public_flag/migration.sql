@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `room` ADD COLUMN `isPublic` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE `user` ADD COLUMN `verificationExpiresAt` DATETIME(3) NULL,
+    ADD COLUMN `pendingEmail` VARCHAR(191) NULL;
+
+-- 已有的未验证账号从现在起给一个完整的宽限期（与 UNVERIFIED_ACCOUNT_GRACE_DAYS 默认值一致），
+-- 避免旧的验证链接全部失效、账号在下一次清理时被直接删除
+UPDATE `user` SET `verificationExpiresAt` = DATE_ADD(NOW(3), INTERVAL 7 DAY) WHERE `isVerified` = false;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `User_pendingEmail_key` ON `user`(`pendingEmail`);
@@ -1,3 +1,94 @@
 export const HEARTBEAT_INTERVAL = 10
 
 export const MAX_FAILED_HEARTBEATS = 3
+
+// 断开连接后等待重连的时间（秒），超过后仍未回到房间才按离开处理
+export const PRESENCE_GRACE_PERIOD = HEARTBEAT_INTERVAL * MAX_FAILED_HEARTBEATS
+
+export const DEFAULT_PAGE_SIZE = 20
+
+export const MAX_PAGE_SIZE = 100
+
+export const MAX_PATHS_PER_REQUEST = 500
+
+export const ROOM_STATE_FLUSH_INTERVAL = 5
+
+// 绘画事件按房间合并后下发的间隔（毫秒）
+export const DRAW_BATCH_INTERVAL_MS = 50
+
+// 连接待发送的数据超过上限后丢弃绘画事件，降到下限以下再补发完整快照
+export const DRAW_BACKPRESSURE_HIGH_WATER = 1024 * 1024
+
+export const DRAW_BACKPRESSURE_LOW_WATER = 256 * 1024
+
+// 房间吞吐统计的窗口（秒）
+export const ROOM_METRICS_WINDOW = 10
+
+export const MAX_ROOM_REVISIONS = 50
+
+// 持久化房间无人使用超过该天数后归档
+export const PERSISTENT_ROOM_RETENTION_DAYS = Number(process.env.PERSISTENT_ROOM_RETENTION_DAYS) || 30
+
+export const ROOM_ARCHIVE_CHECK_INTERVAL = 60 * 60
+
+export const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024
+
+export const MAX_IMPORT_ELEMENTS = 20000
+
+export const DEFAULT_INVITE_EXPIRES_IN = 24 * 60 * 60
+
+export const MAX_INVITE_EXPIRES_IN = 30 * 24 * 60 * 60
+
+export const MAX_ROOM_USERS = 100
+
+export const MAX_ROOM_NAME_LENGTH = 50
+
+export const REFRESH_TOKEN_EXPIRES_IN_DAYS = 30
+
+// 连续登录失败达到次数后开始锁定，锁定时间逐次翻倍
+export const LOGIN_LOCKOUT_THRESHOLD = 5
+
+export const LOGIN_LOCKOUT_BASE_SECONDS = 60
+
+export const LOGIN_LOCKOUT_MAX_SECONDS = 60 * 60
+
+export const LOGIN_FAILURE_WINDOW_SECONDS = 24 * 60 * 60
+
+// 各接口默认限流配置，可用 RATE_LIMIT_<NAME>=次数/秒数 覆盖
+export const RATE_LIMITS = {
+  login: { max: 20, windowMs: 15 * 60 * 1000 },
+  register: { max: 10, windowMs: 60 * 60 * 1000 },
+  reset_password: { max: 5, windowMs: 60 * 60 * 1000 },
+  check_phone: { max: 30, windowMs: 15 * 60 * 1000 },
+  resend_verification: { max: 5, windowMs: 60 * 60 * 1000 },
+  change_email: { max: 5, windowMs: 60 * 60 * 1000 },
+  token_refresh: { max: 60, windowMs: 15 * 60 * 1000 }
+}
+
+export const WS_MESSAGE_RATE_LIMIT = { max: 120, windowMs: 1000 }
+
+export const WS_MAX_LIMITED_WINDOWS = 5
+
+// 前端地址，用于邮件中的链接
+export const APP_URL = process.env.APP_URL || 'http://localhost:5173'
+
+export const PASSWORD_RESET_EXPIRES_IN = 30 * 60
+
+export const EMAIL_VERIFICATION_EXPIRES_IN = 24 * 60 * 60
+
+// 注册后超过该天数仍未验证邮箱的账号会被清理
+export const UNVERIFIED_ACCOUNT_GRACE_DAYS = Number(process.env.UNVERIFIED_ACCOUNT_GRACE_DAYS) || 7
+
+export const UNVERIFIED_ACCOUNT_CHECK_INTERVAL = 60 * 60
+
+// 邮箱验证完成后的跳转地址，失败时会附带 reason 参数
+export const EMAIL_VERIFIED_REDIRECT_URL = process.env.EMAIL_VERIFIED_REDIRECT_URL || `${APP_URL}/?verified=true`
+
+export const EMAIL_VERIFY_FAILED_REDIRECT_URL = process.env.EMAIL_VERIFY_FAILED_REDIRECT_URL || `${APP_URL}/?verified=false`
+
+export const MAIL_RETRY_ATTEMPTS = 5
+
+export const MAIL_RETRY_DELAY = 30
+
+// 多实例部署时每个实例上报的房间在线成员的过期时间（秒）
+export const ROOM_PRESENCE_TTL = 30
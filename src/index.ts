@@ -1,10 +1,42 @@
 import express from 'express'
 import cors from 'cors'
 import bodyParser from 'body-parser'
-import { WebSocketServer } from 'ws'
+import { WebSocketServer, WebSocket, RawData } from 'ws'
+import { IncomingMessage } from 'http'
 import prisma from './lib/prisma'
 import { setupRoutes } from './server'
-import { HEARTBEAT_INTERVAL, MAX_FAILED_HEARTBEATS } from './constants'
+import {
+  HEARTBEAT_INTERVAL,
+  MAX_FAILED_HEARTBEATS,
+  PERSISTENT_ROOM_RETENTION_DAYS,
+  ROOM_ARCHIVE_CHECK_INTERVAL,
+  UNVERIFIED_ACCOUNT_GRACE_DAYS,
+  UNVERIFIED_ACCOUNT_CHECK_INTERVAL,
+  WS_MESSAGE_RATE_LIMIT,
+  WS_MAX_LIMITED_WINDOWS
+} from './constants'
+import {
+  flushRoomDocument,
+  dropRoomDocument,
+  getRoomDocument,
+  serializeDocument,
+  applyRemoteChange,
+  applyDrawOperation,
+  setLayerOrder,
+  isDrawOperation
+} from './server/roomState'
+import { createMessageLimiter } from './utils/rateLimit'
+import { wsError } from './utils/errors'
+import { resolveLocale } from './utils/locale'
+import { RoomRole } from './server/permissions'
+import { dispatchMessage, createConnectionContext } from './server/ws'
+import { trackLiveness, Liveness } from './server/liveness'
+import { scheduleDeparture } from './server/presence'
+import { createDrawBatcher } from './server/drawBatcher'
+import { recordRoomMetric } from './server/roomMetrics'
+import { ServerMessage, RoomUser } from './protocol'
+import { createRoomAdapter, RoomEnvelope, RoomControl } from './server/roomAdapter'
+import { setSessionRevocationHandler } from './server/sessions'
 import path from 'path'
 import fs from 'fs'
 
@@ -17,9 +49,23 @@ if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir)
 }
 
+// 部署在反向代理之后时需要设置，否则限流拿到的都是代理的 IP
+if (process.env.TRUST_PROXY) {
+  const proxyHops = Number(process.env.TRUST_PROXY)
+  app.set('trust proxy', Number.isInteger(proxyHops) ? proxyHops : process.env.TRUST_PROXY)
+}
+
 app.use(cors())
 app.use(bodyParser.json())
-app.use('/uploads', express.static(uploadDir))
+// 上传或导入的 SVG 可能带有脚本，直接打开时也不允许执行
+app.use('/uploads', express.static(uploadDir, {
+  setHeaders: (res, filePath) => {
+    res.setHeader('X-Content-Type-Options', 'nosniff')
+    if (path.extname(filePath).toLowerCase() === '.svg') {
+      res.setHeader('Content-Security-Policy', "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox")
+    }
+  }
+}))
 
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', message: 'Server is running' })
@@ -33,202 +79,258 @@ const server = app.listen(PORT, () => {
 
 const wss = new WebSocketServer({ server })
 
-interface ClientConnection {
-  ws: any
+export interface ClientConnection {
+  ws: WebSocket
   userId: string
   userName?: string
+  sessionId: string
   roomId: string
-  failedHeartbeats: number
-  lastHeartbeat: number
+  role: RoomRole
+  muted: boolean
+  protocolVersion: number
+  liveness: Liveness
 }
 
 const clients = new Map<string, ClientConnection>()
 
 export { clients }
 
-function broadcastRoomUsers(roomId: string) {
-  const roomUsers: { userId: string, userName: string }[] = []
+// 只投递给本实例上的连接，跨实例的部分由房间适配器负责
+function deliverToLocalClients(roomId: string, envelope: RoomEnvelope, remote: boolean) {
+  if (remote) {
+    syncRemoteDocument(roomId, envelope.message)
+  }
+
+  if (envelope.message.type === 'draw_batch') {
+    drawBatcher.deliver(roomId, envelope.message.events)
+    return
+  }
+
+  const message = JSON.stringify(envelope.message)
+
+  clients.forEach(client => {
+    if (client.roomId === roomId && client.userId !== envelope.excludeUserId && client.ws.readyState === WebSocket.OPEN) {
+      client.ws.send(message)
+    }
+  })
+}
+
+// 其他实例上的绘画和图层顺序修改同步到本实例的房间状态，避免本实例落盘时覆盖掉
+function syncRemoteDocument(roomId: string, message: ServerMessage) {
+  if (message.type === 'draw_batch') {
+    applyRemoteChange(roomId, document => {
+      for (const event of message.events) {
+        if (isDrawOperation(event.data)) {
+          applyDrawOperation(document, event.data)
+        }
+      }
+    })
+  } else if (message.type === 'layer_order_update') {
+    applyRemoteChange(roomId, document => setLayerOrder(document, message.data.layerOrder))
+  }
+}
+
+// 控制消息只改动本实例持有的连接和房间状态
+function applyRoomControl(control: RoomControl, remote: boolean) {
+  if (control.action === 'reload_document') {
+    // 发起的实例已经持有新的状态
+    if (remote) {
+      dropRoomDocument(control.roomId)
+    }
+    return
+  }
+
+  if (control.action === 'revoke_sessions') {
+    const revoked = new Set(control.sessionIds)
+    clients.forEach(client => {
+      if (revoked.has(client.sessionId)) {
+        try {
+          sendToClient(client.ws, { type: 'session_revoked' })
+          client.ws.close()
+        } catch (error) {
+          console.error(`关闭用户 ${client.userId} 的连接失败:`, error)
+        }
+      }
+    })
+    return
+  }
+
+  const clientId = `${control.roomId}_${control.userId}`
+  const client = clients.get(clientId)
+  if (!client) {
+    return
+  }
+
+  switch (control.action) {
+    case 'set_role':
+      client.role = control.role
+      break
+    case 'set_muted':
+      client.muted = control.muted
+      sendToClient(client.ws, { type: 'mute_changed', roomId: control.roomId, muted: control.muted })
+      break
+    case 'disconnect':
+      try {
+        sendToClient(client.ws, control.notification)
+        client.ws.close()
+      } catch (error) {
+        console.error(`通知用户 ${control.userId} 失败:`, error)
+      }
+      clients.delete(clientId)
+      broadcastRoomUsers(control.roomId)
+      break
+  }
+}
+
+const roomAdapter = createRoomAdapter(deliverToLocalClients, applyRoomControl)
+console.log(`房间广播适配器: ${roomAdapter.name}`)
+
+const drawBatcher = createDrawBatcher({
+  clients,
+  broadcast: broadcastToRoom,
+  sendToClient,
+  loadSnapshot: async roomId => serializeDocument(await getRoomDocument(roomId)),
+  record: recordRoomMetric
+})
+
+export { drawBatcher }
+
+// 所有实例上该房间的在线成员
+function getRoomPresence(roomId: string): Promise<RoomUser[]> {
+  return roomAdapter.getPresence(roomId)
+}
+
+async function broadcastRoomUsers(roomId: string) {
+  const roomUsers: RoomUser[] = []
   
   clients.forEach(client => {
     if (client.roomId === roomId) {
       roomUsers.push({
         userId: client.userId,
-        userName: client.userName || `User ${client.userId.slice(0, 4)}`
+        userName: client.userName || `User ${client.userId.slice(0, 4)}`,
+        role: client.role
       })
     }
   })
 
-  const message = JSON.stringify({
-    type: 'room_users_update',
-    data: { users: roomUsers }
+  try {
+    await roomAdapter.syncPresence(roomId, roomUsers)
+    broadcastToRoom(roomId, {
+      type: 'room_users_update',
+      data: { users: await roomAdapter.getPresence(roomId) }
+    })
+  } catch (error) {
+    console.error(`同步房间 ${roomId} 在线成员失败:`, error)
+  }
+}
+
+function broadcastToRoom(roomId: string, payload: ServerMessage, excludeUserId?: string) {
+  if (payload.type !== 'draw_batch') {
+    drawBatcher.flush(roomId)
+  }
+
+  roomAdapter.publish(roomId, { message: payload, excludeUserId }).catch(error => {
+    console.error(`广播房间 ${roomId} 消息失败:`, error)
   })
+}
 
-  clients.forEach(client => {
-    if (client.roomId === roomId && client.ws.readyState === 1) { // WebSocket.OPEN
-      client.ws.send(message)
-    }
+// 在所有实例上执行，本实例的连接会立即更新
+function sendRoomControl(control: RoomControl) {
+  roomAdapter.control(control).catch(error => {
+    console.error(`发送房间控制消息 ${control.action} 失败:`, error)
   })
 }
 
-wss.on('connection', (ws: any, req: any) => {
+// 所有发给客户端的消息都经过这里，保证符合协议中的类型定义
+function sendToClient(ws: WebSocket, payload: ServerMessage) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(payload))
+  }
+}
+
+export { broadcastToRoom, broadcastRoomUsers, sendToClient, getRoomPresence, sendRoomControl }
+
+setSessionRevocationHandler(sessionIds => sendRoomControl({ action: 'revoke_sessions', sessionIds }))
+
+// 支持在连接地址上携带 token：ws://host/?token=xxx
+function getUpgradeToken(req: IncomingMessage): string | null {
+  try {
+    return new URL(req.url || '/', 'http://localhost').searchParams.get('token')
+  } catch (e) {
+    return null
+  }
+}
+
+wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
   console.log('新的WebSocket连接')
-  
-  let userId: string | null = null
-  let roomId: string | null = null
 
-  ws.on('message', async (message: string) => {
+  // 浏览器握手时会带上 Accept-Language，错误提示按连接的语言返回
+  const locale = resolveLocale(req.headers['accept-language'])
+  const liveness = trackLiveness(ws, {
+    intervalMs: HEARTBEAT_INTERVAL * 1000,
+    maxMissed: MAX_FAILED_HEARTBEATS,
+    onTimeout: () => console.log(`用户 ${connection.userId || '未加入'} 连续 ${MAX_FAILED_HEARTBEATS} 次未响应 ping，断开连接`)
+  })
+  const connection = createConnectionContext(ws, locale, getUpgradeToken(req), liveness)
+  const messageLimiter = createMessageLimiter(WS_MESSAGE_RATE_LIMIT, WS_MAX_LIMITED_WINDOWS)
+
+  ws.on('message', async (message: RawData) => {
+    liveness.markAlive()
+
+    // 超出频率的消息直接丢弃，持续刷消息则断开连接
+    const limit = messageLimiter.hit()
+    if (limit === 'flood') {
+      console.warn(`用户 ${connection.userId || '未加入'} 持续发送过多消息，断开连接`)
+      ws.close(1008, 'rate_limited')
+      return
+    }
+    if (limit === 'limited') {
+      if (messageLimiter.firstLimited) {
+        sendToClient(ws, wsError('rate_limited', locale))
+      }
+      return
+    }
+
     try {
-      const data = JSON.parse(message)
-      
-      if (data.type === 'join') {
-        userId = data.userId
-        roomId = data.roomId
-        let userName = data.userName
-        
-        if (userId && roomId) {
-          // Attempt to fetch real name from DB
-          try {
-             const user = await prisma.user.findUnique({ where: { id: userId } })
-             if (user && user.name) {
-                 userName = user.name
-             }
-          } catch (e) {
-             console.error("Failed to fetch user name from DB:")
-            //  console.error("Failed to fetch user name from DB:", e)
-          }
-
-          const clientId = `${roomId}_${userId}`
-          clients.set(clientId, {
-            ws,
-            userId,
-            userName,
-            roomId,
-            failedHeartbeats: 0,
-            lastHeartbeat: Date.now()
-          })
-          
-          console.log(`用户 ${userName || userId} 加入房间 ${roomId}`)
-          
-          ws.send(JSON.stringify({
-            type: 'joined',
-            roomId,
-            userId
-          }))
-
-          // Broadcast user list update
-          broadcastRoomUsers(roomId)
-
-          // Send snapshot if exists
-          const room = await prisma.room.findUnique({
-            where: { roomId: roomId }
-          })
-          
-          if (room) {
-            const snapshot = await prisma.roomSnapshot.findUnique({
-              where: { roomId: room.id }
-            })
-            
-            if (snapshot) {
-                ws.send(JSON.stringify({
-                  type: 'snapshot_data',
-                  data: snapshot.data,
-                  layerOrder: snapshot.layerOrder ? JSON.parse(snapshot.layerOrder) : null
-                }))
-                console.log(`向用户 ${userId} 发送房间 ${roomId} 的快照`)
-             }
-          }
-        }
-      } else if (data.type === 'heartbeat') {
-        if (userId && roomId) {
-          const clientId = `${roomId}_${userId}`
-          const client = clients.get(clientId)
-          
-          if (client) {
-            client.failedHeartbeats = 0
-            client.lastHeartbeat = Date.now()
-            clients.set(clientId, client)
-            
-            ws.send(JSON.stringify({
-              type: 'heartbeat_ack',
-              timestamp: Date.now()
-            }))
-          }
-        }
-      } else if (data.type === 'draw_event') {
-        // 广播绘画事件给房间内其他用户
-        if (roomId) {
-          clients.forEach((client) => {
-            if (client.roomId === roomId && client.userId !== userId) {
-              client.ws.send(JSON.stringify(data))
-            }
-          })
-        }
-      } else if (data.type === 'save_snapshot') {
-        if (roomId && userId) {
-           const room = await prisma.room.findUnique({
-             where: { roomId: roomId }
-           })
-           if (room && room.ownerId === userId) {
-              await prisma.roomSnapshot.upsert({
-                where: { roomId: room.id },
-                update: { 
-                  data: data.data.data,
-                  layerOrder: data.data.layerOrder ? JSON.stringify(data.data.layerOrder) : null
-                },
-                create: {
-                  roomId: room.id,
-                  data: data.data.data,
-                  layerOrder: data.data.layerOrder ? JSON.stringify(data.data.layerOrder) : null
-                }
-              })
-              console.log(`房主 ${userId} 保存了房间 ${roomId} 的快照`)
-            }
-         }
-       } else if (data.type === 'layer_order_update') {
-          // Broadcast layer order update to all clients in the room
-          if (roomId) {
-            clients.forEach((client) => {
-              if (client.roomId === roomId && client.userId !== userId) {
-                client.ws.send(JSON.stringify(data))
-              }
-            })
-            
-            // If it's the owner, also update the snapshot immediately?
-            // User requirement: "Default layer order syncs with owner... can also save to snapshot"
-            // Let's also save if owner.
-            const room = await prisma.room.findUnique({ where: { roomId: roomId } })
-            if (room && room.ownerId === userId) {
-               await prisma.roomSnapshot.updateMany({
-                 where: { roomId: room.id },
-                 data: { layerOrder: JSON.stringify(data.data.layerOrder) }
-               }).catch(e => 
-                console.error("Failed to auto-save layer order:")
-                // console.error("Failed to auto-save layer order:", e)
-              )
-            }
-          }
-       }
-     } catch (error) {
-      console.error('处理WebSocket消息错误:')
-      // console.error('处理WebSocket消息错误:', error)
+      await dispatchMessage(connection, String(message))
+    } catch (error) {
+      console.error('处理WebSocket消息错误:', error)
     }
   })
 
   ws.on('close', async () => {
-    if (userId && roomId) {
+    const { userId, roomId } = connection
+    // 被踢出、会话被撤销或同一用户建立了新连接时，clients 中已不是这个连接，不算作离开
+    if (userId && roomId && clients.get(`${roomId}_${userId}`)?.ws === ws) {
       const clientId = `${roomId}_${userId}`
       clients.delete(clientId)
       console.log(`用户 ${userId} (房间: ${roomId}) 断开连接`)
-      broadcastRoomUsers(roomId)
+      scheduleDeparture(roomId, userId, liveness.timedOut ? 'owner_timeout' : 'owner_disconnected')
+      // 先同步在线成员，下面才能看到其他实例上的成员
+      await broadcastRoomUsers(roomId)
       
       // Check if owner and clear snapshot
       try {
         const room = await prisma.room.findUnique({ where: { roomId: roomId } })
-        if (room && room.ownerId === userId) {
+        const localConnected = [...clients.values()].some(client => client.roomId === roomId)
+        const othersConnected = localConnected || (await getRoomPresence(roomId)).length > 0
+        // 还有其他成员在线时，房主会在宽限期后转移，保留快照
+        if (room && room.ownerId === userId && !room.persistent && !othersConnected) {
              console.log(`房主退出，清除房间 ${roomId} 快照`)
+             dropRoomDocument(roomId)
              await prisma.roomSnapshot.deleteMany({
                  where: { roomId: room.id }
              })
+        } else if (!localConnected) {
+             // 本实例上已无该房间的连接，落盘后释放内存中的房间状态
+             await flushRoomDocument(roomId)
+             dropRoomDocument(roomId)
+             if (room) {
+               await prisma.room.update({
+                 where: { id: room.id },
+                 data: { lastActiveAt: new Date() }
+               })
+             }
         }
       } catch (e) {
         console.error("清除快照失败:")
@@ -243,216 +345,57 @@ wss.on('connection', (ws: any, req: any) => {
   })
 })
 
-const heartbeatCheckInterval = setInterval(async () => {
-  console.log('开始心跳检测...')
-  
+const archiveCheckInterval = setInterval(async () => {
   try {
-    const rooms = await prisma.room.findMany({
+    const cutoff = new Date(Date.now() - PERSISTENT_ROOM_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    const idleRooms = await prisma.room.findMany({
       where: {
-        status: 'active'
+        persistent: true,
+        status: 'active',
+        lastActiveAt: { lt: cutoff }
       }
     })
-    
-    console.log(`发现 ${rooms.length} 个活跃房间`)
-    
-    for (const room of rooms) {
-      const members = await prisma.roomMember.findMany({
-        where: {
-          roomId: room.id
-        },
-        include: {
-          user: true
-        }
-      })
-      
-      console.log(`房间 ${room.roomId} 有 ${members.length} 个成员`)
-      
-      const roomExists = await prisma.room.findUnique({
-        where: {
-          id: room.id
-        }
-      })
-      
-      if (!roomExists) {
-        console.log(`房间 ${room.roomId} 已不存在，通知所有成员`)
-        
-        for (const member of members) {
-          const clientId = `${room.roomId}_${member.userId}`
-          const client = clients.get(clientId)
-          
-          if (client) {
-            try {
-              client.ws.send(JSON.stringify({
-                type: 'room_deleted',
-                roomId: room.roomId
-              }))
-              console.log(`通知用户 ${member.userId} 房间 ${room.roomId} 已解散`)
-              clients.delete(clientId)
-            } catch (error) {
-              console.error(`通知用户 ${member.userId} 失败:`, error)
-              clients.delete(clientId)
-            }
-          }
-        }
-        
+
+    for (const room of idleRooms) {
+      // 其他实例上可能还有连接
+      if ((await getRoomPresence(room.roomId)).length > 0) {
         continue
       }
-      
-      for (const member of members) {
-        const clientId = `${room.roomId}_${member.userId}`
-        const client = clients.get(clientId)
-        
-        if (client) {
-          const heartbeatMessage = JSON.stringify({
-            type: 'heartbeat',
-            timestamp: Date.now()
-          })
-          
-          try {
-            client.ws.send(heartbeatMessage)
-            client.failedHeartbeats++
-            clients.set(clientId, client)
-            
-            console.log(`向用户 ${member.userId} (房间: ${room.roomId}) 发送心跳检测，失败次数: ${client.failedHeartbeats}`)
-          } catch (error) {
-            console.error(`发送心跳到用户 ${member.userId} (房间: ${room.roomId}) 失败:`, error)
-            client.failedHeartbeats++
-            clients.set(clientId, client)
-          }
-        } else {
-          console.log(`用户 ${member.userId} (房间: ${room.roomId}) 未连接WebSocket`)
-          
-          if (member.userId === room.ownerId) {
-            // 删除房间前通知其他成员
-            const otherMembers = await prisma.roomMember.findMany({
-              where: {
-                roomId: room.id,
-                userId: { not: member.userId }
-              }
-            })
-
-            for (const otherMember of otherMembers) {
-              const clientKey = `${room.roomId}_${otherMember.userId}`
-              const client = clients.get(clientKey)
-              if (client) {
-                try {
-                  client.ws.send(JSON.stringify({
-                    type: 'room_deleted',
-                    roomId: room.roomId,
-                    reason: 'owner_disconnected'
-                  }))
-                  console.log(`通知成员 ${otherMember.userId} 房主断开连接，房间解散`)
-                } catch (err) {
-                  console.error(`通知成员 ${otherMember.userId} 失败:`, err)
-                }
-              }
-            }
-
-            await prisma.room.delete({
-              where: {
-                id: room.id
-              }
-            })
-            console.log(`房主 ${member.userId} 未连接，已删除房间 ${room.roomId}`)
-            return
-          }
-          
-          const existingMember = await prisma.roomMember.findUnique({
-            where: {
-              roomId_userId: {
-                roomId: room.id,
-                userId: member.userId
-              }
-            }
-          })
-          
-          if (existingMember) {
-            await prisma.roomMember.delete({
-              where: {
-                roomId_userId: {
-                  roomId: room.id,
-                  userId: member.userId
-                }
-              }
-            })
-            console.log(`删除未连接的用户 ${member.userId} (房间: ${room.roomId})`)
-          }
-        }
-        
-        const updatedClient = clients.get(clientId)
-        if (updatedClient && updatedClient.failedHeartbeats >= MAX_FAILED_HEARTBEATS) {
-          if (member.userId === room.ownerId) {
-             // Notify other members before deleting room
-             const otherMembers = await prisma.roomMember.findMany({
-              where: {
-                roomId: room.id,
-                userId: { not: member.userId }
-              }
-            })
-
-            for (const otherMember of otherMembers) {
-              const clientKey = `${room.roomId}_${otherMember.userId}`
-              const client = clients.get(clientKey)
-              if (client) {
-                try {
-                  client.ws.send(JSON.stringify({
-                    type: 'room_deleted',
-                    roomId: room.roomId,
-                    reason: 'owner_timeout'
-                  }))
-                  console.log(`通知成员 ${otherMember.userId} 房主心跳超时，房间解散`)
-                } catch (err) {
-                  console.error(`通知成员 ${otherMember.userId} 失败:`, err)
-                }
-              }
-            }
-
-            await prisma.room.delete({
-              where: {
-                id: room.id
-              }
-            })
-            clients.delete(clientId)
-            console.log(`房主 ${member.userId} (房间: ${room.roomId}) 连续 ${MAX_FAILED_HEARTBEATS} 次心跳失败，已删除房间`)
-            return
-          }
-          
-          await prisma.roomMember.delete({
-            where: {
-              roomId_userId: {
-                roomId: room.id,
-                userId: member.userId
-              }
-            }
-          })
-          
-          clients.delete(clientId)
-          console.log(`用户 ${member.userId} (房间: ${room.roomId}) 连续 ${MAX_FAILED_HEARTBEATS} 次心跳失败，已从房间移除`)
-          broadcastRoomUsers(room.roomId)
-        }
-      }
-      
-      const remainingMembers = await prisma.roomMember.count({
-        where: {
-          roomId: room.id
+
+      await prisma.room.update({
+        where: { id: room.id },
+        data: {
+          status: 'archived',
+          archivedAt: new Date()
         }
       })
-      
-      if (remainingMembers === 0) {
-        await prisma.room.delete({
-          where: {
-            id: room.id
-          }
-        })
-        console.log(`房间 ${room.roomId} 无成员，已删除`)
+      dropRoomDocument(room.roomId)
+      console.log(`持久化房间 ${room.roomId} 超过 ${PERSISTENT_ROOM_RETENTION_DAYS} 天无人使用，已归档`)
+    }
+  } catch (error) {
+    console.error('归档房间错误:', error)
+  }
+}, ROOM_ARCHIVE_CHECK_INTERVAL * 1000)
+
+const unverifiedCleanupInterval = setInterval(async () => {
+  try {
+    const cutoff = new Date(Date.now() - UNVERIFIED_ACCOUNT_GRACE_DAYS * 24 * 60 * 60 * 1000)
+    const result = await prisma.user.deleteMany({
+      where: {
+        isVerified: false,
+        createdAt: { lt: cutoff },
+        // 验证链接仍在有效期内的不删除；没有有效期的记录（NULL）也不会匹配
+        verificationExpiresAt: { not: null, lt: new Date() }
       }
+    })
+
+    if (result.count > 0) {
+      console.log(`已清理 ${result.count} 个超过 ${UNVERIFIED_ACCOUNT_GRACE_DAYS} 天未验证邮箱的账号`)
     }
-    
-    console.log('心跳检测完成')
   } catch (error) {
-    console.error('心跳检测错误:', error)
+    console.error('清理未验证账号错误:', error)
   }
-}, HEARTBEAT_INTERVAL * 1000)
+}, UNVERIFIED_ACCOUNT_CHECK_INTERVAL * 1000)
 
 process.on('uncaughtException', (error) => {
   console.error('未捕获的异常:', error)
@@ -0,0 +1,54 @@
+import { createSmtpTransport, createOutboxTransport, createQueuedTransport, MailTransport } from './transports'
+import { renderMailTemplate, MailTemplateName, MailTemplateData, MailLocale } from './templates'
+import { MAIL_RETRY_ATTEMPTS, MAIL_RETRY_DELAY } from '../constants'
+
+export type { MailTransport, MailMessage } from './transports'
+export type { MailLocale, MailTemplateName } from './templates'
+export { createSmtpTransport, createOutboxTransport, createQueuedTransport } from './transports'
+
+// MAIL_TRANSPORT 可选 smtp / outbox，未配置时有 SMTP 服务器就用 SMTP，否则写入本地 outbox。
+// 生产环境不会自动退回 outbox，否则邮件只会出现在日志里，用户永远收不到
+function createDefaultTransport(): MailTransport {
+  if (!process.env.MAIL_TRANSPORT && !process.env.EMAIL_HOST && process.env.NODE_ENV === 'production') {
+    throw new Error('生产环境未配置邮件服务，请设置 EMAIL_HOST 或 MAIL_TRANSPORT')
+  }
+
+  const kind = process.env.MAIL_TRANSPORT || (process.env.EMAIL_HOST ? 'smtp' : 'outbox')
+
+  if (kind === 'outbox') {
+    return createOutboxTransport(process.env.MAIL_OUTBOX_DIR)
+  }
+
+  const smtp = createSmtpTransport()
+  return process.env.MAIL_QUEUE === 'false'
+    ? smtp
+    : createQueuedTransport(smtp, { maxAttempts: MAIL_RETRY_ATTEMPTS, retryDelayMs: MAIL_RETRY_DELAY * 1000 })
+}
+
+let transport: MailTransport | null = null
+
+function getTransport(): MailTransport {
+  if (!transport) {
+    transport = createDefaultTransport()
+    console.log(`邮件发送方式: ${transport.name}`)
+  }
+  return transport
+}
+
+export function setMailTransport(nextTransport: MailTransport) {
+  transport = nextTransport
+}
+
+export async function sendMail<K extends MailTemplateName>(
+  to: string,
+  template: K,
+  data: MailTemplateData[K],
+  locale?: MailLocale
+) {
+  const rendered = renderMailTemplate(template, data, locale)
+  await getTransport().send({
+    from: process.env.EMAIL,
+    to,
+    ...rendered
+  })
+}
@@ -0,0 +1,167 @@
+import { Locale, DEFAULT_LOCALE } from '../utils/locale'
+
+export type MailLocale = Locale
+
+export interface MailTemplateData {
+  verification: { url: string, expiresInHours: number }
+  password_reset: { url: string, expiresInMinutes: number }
+  register_notice: { reason: 'email_registered' | 'phone_taken' }
+  room_invite: { inviterName: string, roomName: string, url: string, expiresAt: Date }
+}
+
+export type MailTemplateName = keyof MailTemplateData
+
+export interface RenderedMail {
+  subject: string
+  html: string
+  text: string
+}
+
+// 模板只描述内容结构，HTML 和纯文本由同一份内容生成
+interface MailContent {
+  subject: string
+  title: string
+  paragraphs: string[]
+  action?: { label: string, url: string }
+  notes?: string[]
+}
+
+type TemplateSet = {
+  [K in MailTemplateName]: Record<MailLocale, (data: MailTemplateData[K]) => MailContent>
+}
+
+const templates: TemplateSet = {
+  verification: {
+    'zh-CN': data => ({
+      subject: 'Infinitec 邮箱验证',
+      title: 'Infinitec',
+      paragraphs: ['请点击下面的按钮验证您的邮箱地址：'],
+      action: { label: '验证邮箱', url: data.url },
+      notes: [`链接 ${data.expiresInHours} 小时内有效。如果按钮无法点击，请复制以下链接到浏览器打开：`, data.url]
+    }),
+    en: data => ({
+      subject: 'Verify your Infinitec email',
+      title: 'Infinitec',
+      paragraphs: ['Please confirm your email address by clicking the button below:'],
+      action: { label: 'Verify email', url: data.url },
+      notes: [`This link expires in ${data.expiresInHours} hours. If the button does not work, copy this link into your browser:`, data.url]
+    })
+  },
+  password_reset: {
+    'zh-CN': data => ({
+      subject: 'Infinitec 密码重置',
+      title: 'Infinitec 密码重置',
+      paragraphs: ['我们收到了重置您账号密码的请求，请点击下面的按钮设置新密码：'],
+      action: { label: '重置密码', url: data.url },
+      notes: [
+        `链接 ${data.expiresInMinutes} 分钟内有效，且只能使用一次。如果按钮无法点击，请复制以下链接到浏览器打开：`,
+        data.url,
+        '如果这不是您本人的操作，请忽略此邮件，您的密码不会被修改。'
+      ]
+    }),
+    en: data => ({
+      subject: 'Reset your Infinitec password',
+      title: 'Infinitec password reset',
+      paragraphs: ['We received a request to reset your password. Click the button below to choose a new one:'],
+      action: { label: 'Reset password', url: data.url },
+      notes: [
+        `This link expires in ${data.expiresInMinutes} minutes and can only be used once. If the button does not work, copy this link into your browser:`,
+        data.url,
+        'If you did not request this, you can ignore this email and your password will stay the same.'
+      ]
+    })
+  },
+  register_notice: {
+    'zh-CN': data => ({
+      subject: 'Infinitec 注册提醒',
+      title: 'Infinitec',
+      paragraphs: [
+        '我们收到了使用此邮箱注册 Infinitec 的请求。',
+        data.reason === 'email_registered'
+          ? '该邮箱已注册过 Infinitec 账号，如果忘记密码，请使用找回密码功能。'
+          : '您填写的手机号已绑定其他 Infinitec 账号，请更换手机号后重新注册。'
+      ],
+      notes: ['如果这不是您本人的操作，请忽略此邮件。']
+    }),
+    en: data => ({
+      subject: 'Infinitec sign-up attempt',
+      title: 'Infinitec',
+      paragraphs: [
+        'We received a request to create an Infinitec account with this email address.',
+        data.reason === 'email_registered'
+          ? 'This email already has an Infinitec account. If you forgot your password, use the password reset option.'
+          : 'The phone number you entered is already linked to another Infinitec account. Please sign up with a different number.'
+      ],
+      notes: ['If this was not you, you can ignore this email.']
+    })
+  },
+  room_invite: {
+    'zh-CN': data => ({
+      subject: `${data.inviterName} 邀请您加入 Infinitec 房间`,
+      title: 'Infinitec',
+      paragraphs: [`${data.inviterName} 邀请您加入房间「${data.roomName}」一起绘图。`],
+      action: { label: '加入房间', url: data.url },
+      notes: [`邀请链接有效期至 ${data.expiresAt.toLocaleString('zh-CN')}。如果按钮无法点击，请复制以下链接到浏览器打开：`, data.url]
+    }),
+    en: data => ({
+      subject: `${data.inviterName} invited you to an Infinitec room`,
+      title: 'Infinitec',
+      paragraphs: [`${data.inviterName} invited you to draw together in "${data.roomName}".`],
+      action: { label: 'Join room', url: data.url },
+      notes: [`This invite is valid until ${data.expiresAt.toLocaleString('en')}. If the button does not work, copy this link into your browser:`, data.url]
+    })
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function renderHtml(content: MailContent): string {
+  const paragraphs = content.paragraphs.map(line => `<p>${escapeHtml(line)}</p>`).join('\n')
+  const action = content.action
+    ? `<a href="${escapeHtml(content.action.url)}" style="display: inline-block; padding: 10px 20px; background-color: #1890ff; color: white; text-decoration: none; border-radius: 4px;">${escapeHtml(content.action.label)}</a>`
+    : ''
+  const notes = (content.notes || [])
+    .map((line, index) => `<p style="${index === 0 ? 'margin-top: 20px; ' : ''}font-size: 12px; color: #666;">${escapeHtml(line)}</p>`)
+    .join('\n')
+
+  return `
+    <div style="font-family: Arial, sans-serif; padding: 20px;">
+      <h2 style="color: #333;">${escapeHtml(content.title)}</h2>
+      ${paragraphs}
+      ${action}
+      ${notes}
+    </div>
+  `
+}
+
+function renderText(content: MailContent): string {
+  return [
+    content.title,
+    '',
+    ...content.paragraphs,
+    ...(content.action ? ['', `${content.action.label}: ${content.action.url}`] : []),
+    ...(content.notes?.length ? ['', ...content.notes] : [])
+  ].join('\n')
+}
+
+export function renderMailTemplate<K extends MailTemplateName>(
+  name: K,
+  data: MailTemplateData[K],
+  locale: MailLocale = DEFAULT_LOCALE
+): RenderedMail {
+  const template = templates[name][locale] as (data: MailTemplateData[K]) => MailContent
+  const content = template(data)
+
+  return {
+    subject: content.subject,
+    html: renderHtml(content),
+    text: renderText(content)
+  }
+}
@@ -0,0 +1,119 @@
+import nodemailer from 'nodemailer'
+import path from 'path'
+import fs from 'fs'
+
+export interface MailMessage {
+  from?: string
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface MailTransport {
+  name: string
+  send(message: MailMessage): Promise<void>
+}
+
+export function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: process.env.EMAIL_HOST,
+    port: Number(process.env.EMAIL_PORT),
+    secure: true,
+    auth: {
+      user: process.env.EMAIL,
+      pass: process.env.EMAIL_SMTP
+    }
+  })
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail(message)
+    }
+  }
+}
+
+// 验证、重置密码和邀请链接中的令牌等同于凭据，不能出现在日志里
+export function redactTokens(text: string): string {
+  return text.replace(/([?&]token=)[^&\s"'<>]+/gi, '$1[redacted]')
+}
+
+// 开发和测试环境使用：邮件打印到控制台（隐去链接中的令牌），指定目录时把完整内容写入文件
+export function createOutboxTransport(outboxDir?: string): MailTransport {
+  return {
+    name: 'outbox',
+    async send(message) {
+      console.log(`[outbox] 发送邮件至 ${message.to}：${message.subject}\n${redactTokens(message.text)}`)
+
+      if (outboxDir) {
+        await fs.promises.mkdir(outboxDir, { recursive: true })
+        const filename = `${Date.now()}-${Math.round(Math.random() * 1E9)}.json`
+        await fs.promises.writeFile(
+          path.join(outboxDir, filename),
+          JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+        )
+      }
+    }
+  }
+}
+
+interface QueuedMail {
+  message: MailMessage
+  attempts: number
+}
+
+export interface QueuedTransportOptions {
+  maxAttempts: number
+  retryDelayMs: number
+}
+
+// 发送失败的邮件进入队列按指数退避重试。首次发送的错误仍然抛给调用方，
+// 由调用方提示用户邮件可能延迟或需要重新发送
+export function createQueuedTransport(inner: MailTransport, options: QueuedTransportOptions): MailTransport {
+  const queue: QueuedMail[] = []
+  let timer: NodeJS.Timeout | null = null
+
+  const schedule = () => {
+    if (timer || queue.length === 0) {
+      return
+    }
+    const delay = options.retryDelayMs * Math.pow(2, queue[0].attempts - 1)
+    timer = setTimeout(flush, delay)
+    timer.unref()
+  }
+
+  const flush = async () => {
+    timer = null
+    const pending = queue.splice(0, queue.length)
+
+    for (const item of pending) {
+      try {
+        await inner.send(item.message)
+      } catch (error) {
+        item.attempts++
+        if (item.attempts >= options.maxAttempts) {
+          console.error(`邮件发送至 ${item.message.to} 失败 ${item.attempts} 次，已放弃:`, error)
+        } else {
+          queue.push(item)
+        }
+      }
+    }
+
+    schedule()
+  }
+
+  return {
+    name: `queued(${inner.name})`,
+    async send(message) {
+      try {
+        await inner.send(message)
+      } catch (error) {
+        console.error(`邮件发送至 ${message.to} 失败，稍后重试:`, error)
+        queue.push({ message, attempts: 1 })
+        schedule()
+        throw error
+      }
+    }
+  }
+}
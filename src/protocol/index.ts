@@ -0,0 +1,161 @@
+// WebSocket 协议定义，只包含类型和常量，不依赖服务端代码，前端可以直接引用
+
+// 1：最初的协议；2：支持 requestId，服务端对每条带 requestId 的消息回复 ack 或 error；
+// 3：其他成员的绘画事件合并成 draw_batch 定时下发，更早的版本仍逐条收到 draw_event
+export const PROTOCOL_VERSION = 3
+export const MIN_PROTOCOL_VERSION = 1
+
+export type RoomRole = 'owner' | 'moderator' | 'editor' | 'viewer'
+
+export type AssignableRole = Exclude<RoomRole, 'owner'>
+
+// ---- 客户端 -> 服务端 ----
+
+// 协议 2 起，任意消息都可以带上 requestId，服务端在回复中原样带回
+export interface RequestEnvelope {
+  requestId?: string
+}
+
+export interface JoinMessage extends RequestEnvelope {
+  type: 'join'
+  roomId: string
+  token?: string
+  // 客户端支持的最高协议版本，不传视为 1
+  protocolVersion?: number
+}
+
+export interface HeartbeatMessage extends RequestEnvelope {
+  type: 'heartbeat'
+}
+
+export interface DrawEventMessage extends RequestEnvelope {
+  type: 'draw_event'
+  data: unknown
+}
+
+export interface SaveSnapshotMessage extends RequestEnvelope {
+  type: 'save_snapshot'
+  data: {
+    data: string
+    layerOrder?: unknown
+    label?: string
+  }
+}
+
+export interface LayerOrderUpdateMessage extends RequestEnvelope {
+  type: 'layer_order_update'
+  data: {
+    layerOrder: unknown
+  }
+}
+
+export type ModerationMessageType = 'kick_member' | 'ban_member' | 'unban_member' | 'mute_member' | 'unmute_member'
+
+export interface ModerationMessage extends RequestEnvelope {
+  type: ModerationMessageType
+  data: {
+    userId: string
+    reason?: string
+  }
+}
+
+export interface SetRoleMessage extends RequestEnvelope {
+  type: 'set_role'
+  data: {
+    userId: string
+    role: AssignableRole
+  }
+}
+
+export type ClientMessage =
+  | JoinMessage
+  | HeartbeatMessage
+  | DrawEventMessage
+  | SaveSnapshotMessage
+  | LayerOrderUpdateMessage
+  | ModerationMessage
+  | SetRoleMessage
+
+export type ClientMessageType = ClientMessage['type']
+
+// 管理类消息共用一个接口，不能直接用 Extract 按 type 取出
+export type ClientMessageOf<K extends ClientMessageType> =
+  ClientMessage extends infer M ? M extends { type: infer T } ? K extends T ? M : never : never : never
+
+// ---- 服务端 -> 客户端 ----
+
+export interface FieldIssue {
+  field: string
+  rule: string
+  expected?: string | number
+}
+
+export interface RoomUser {
+  userId: string
+  userName: string
+  role: RoomRole
+}
+
+export interface RoomSettings {
+  name: string | null
+  hasPassword: boolean
+  maxUsers: number
+  status: string
+  isPublic: boolean
+  persistent: boolean
+}
+
+export type RoomDeletedReason = 'owner_disconnected' | 'owner_timeout'
+
+export type OwnerChangeReason = 'transferred' | 'owner_left' | 'owner_disconnected' | 'owner_timeout'
+
+// code 为服务端错误码，message 为按连接语言翻译后的提示
+export interface ErrorMessage {
+  type: 'error'
+  code: string
+  message: string
+  requestId?: string
+  action?: string
+  issues?: FieldIssue[]
+}
+
+export interface JoinErrorMessage extends Omit<ErrorMessage, 'type'> {
+  type: 'join_error'
+  supportedVersions?: { min: number, max: number }
+}
+
+export interface DrawEventEntry {
+  userId: string
+  data: unknown
+}
+
+export interface AckMessage {
+  type: 'ack'
+  requestId: string
+  action: ClientMessageType
+}
+
+export type ServerMessage =
+  | ErrorMessage
+  | JoinErrorMessage
+  | AckMessage
+  | { type: 'joined', roomId: string, userId: string, protocolVersion: number }
+  // resync 为 true 表示连接积压过多，中间的绘画事件已被丢弃，需要用这份快照替换本地画布
+  | { type: 'snapshot_data', data: string, layerOrder: unknown, version: number, resync?: boolean }
+  | { type: 'heartbeat_ack', timestamp: number }
+  | { type: 'draw_event', userId: string, data: unknown }
+  | { type: 'draw_batch', events: DrawEventEntry[] }
+  | { type: 'layer_order_update', userId: string, data: { layerOrder: unknown } }
+  | { type: 'snapshot_saved', revision: number }
+  | { type: 'snapshot_imported', data: string, layerOrder: unknown, revision: number }
+  | { type: 'snapshot_restored', data: string, layerOrder: unknown, revision: number, restoredFrom: number }
+  | { type: 'room_users_update', data: { users: RoomUser[] } }
+  | { type: 'room_settings_updated', roomId: string, changed: string[], settings: RoomSettings }
+  | { type: 'room_deleted', roomId: string, reason?: RoomDeletedReason }
+  | { type: 'owner_changed', roomId: string, ownerId: string, ownerName?: string, previousOwnerId: string, reason: OwnerChangeReason }
+  | { type: 'role_changed', roomId: string, userId: string, role: RoomRole }
+  | { type: 'kicked' | 'banned', roomId: string, reason: string | null }
+  | { type: 'mute_changed', roomId: string, muted: boolean }
+  | { type: 'session_revoked' }
+
+export type ServerMessageType = ServerMessage['type']
@@ -0,0 +1,226 @@
+import prisma from '../lib/prisma'
+import { Request, Response, Express } from 'express'
+import { Prisma } from '@prisma/client'
+import { verifyToken } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { parsePagination, paginationMeta } from '../utils/pagination'
+import { getRoomPresence } from '../index'
+import { normalizeRole } from './permissions'
+
+const ROOM_SCOPES = ['all', 'owned', 'joined']
+
+const ROOM_STATUSES = ['active', 'archived']
+
+const roomListInclude = {
+    owner: { select: { id: true, name: true } },
+    _count: { select: { members: true } }
+} satisfies Prisma.RoomInclude
+
+type RoomListItem = Prisma.RoomGetPayload<{ include: typeof roomListInclude }>
+
+// 所有实例上的在线成员
+async function getOnlineUserIds(roomId: string): Promise<Set<string>> {
+    const presence = await getRoomPresence(roomId)
+    return new Set(presence.map(user => user.userId))
+}
+
+async function serializeRoomSummary(room: RoomListItem) {
+    return {
+        id: room.id,
+        roomId: room.roomId,
+        name: room.name,
+        owner: room.owner,
+        maxUsers: room.maxUsers,
+        status: room.status,
+        persistent: room.persistent,
+        isPublic: room.isPublic,
+        hasPassword: !!room.password,
+        memberCount: room._count.members,
+        onlineCount: (await getOnlineUserIds(room.roomId)).size,
+        createdAt: room.createdAt,
+        updatedAt: room.updatedAt
+    }
+}
+
+function searchFilter(query: unknown): Prisma.RoomWhereInput {
+    if (typeof query !== 'string' || !query.trim()) {
+        return {}
+    }
+    const keyword = query.trim()
+    return {
+        OR: [
+            { name: { contains: keyword } },
+            { roomId: keyword.toUpperCase() }
+        ]
+    }
+}
+
+export function setupDiscoveryRoutes(app: Express) {
+    app.get('/api/rooms', async (req: Request, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const scope = String(req.query.scope || 'all')
+            if (!ROOM_SCOPES.includes(scope)) {
+                return sendError(res, 'invalid_option', { field: 'scope', values: ROOM_SCOPES.join(', ') })
+            }
+
+            const status = req.query.status === undefined ? undefined : String(req.query.status)
+            if (status !== undefined && !ROOM_STATUSES.includes(status)) {
+                return sendError(res, 'invalid_option', { field: 'status', values: ROOM_STATUSES.join(', ') })
+            }
+
+            const scopeFilter: Prisma.RoomWhereInput = scope === 'owned'
+                ? { ownerId: payload.userId }
+                : scope === 'joined'
+                    ? { ownerId: { not: payload.userId }, members: { some: { userId: payload.userId } } }
+                    : { OR: [{ ownerId: payload.userId }, { members: { some: { userId: payload.userId } } }] }
+
+            const where: Prisma.RoomWhereInput = {
+                AND: [scopeFilter, searchFilter(req.query.q), status ? { status } : {}]
+            }
+            const pagination = parsePagination(req.query)
+
+            const [rooms, total] = await Promise.all([
+                prisma.room.findMany({
+                    where,
+                    orderBy: { updatedAt: 'desc' },
+                    skip: pagination.skip,
+                    take: pagination.take,
+                    include: {
+                        ...roomListInclude,
+                        members: {
+                            where: { userId: payload.userId },
+                            select: { role: true }
+                        }
+                    }
+                }),
+                prisma.room.count({ where })
+            ])
+
+            res.json({
+                success: true,
+                rooms: await Promise.all(rooms.map(async room => ({
+                    ...await serializeRoomSummary(room),
+                    myRole: room.ownerId === payload.userId ? 'owner' : normalizeRole(room.members[0]?.role)
+                }))),
+                pagination: paginationMeta(pagination, total)
+            })
+        } catch (error) {
+            console.error('获取房间列表错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/rooms/public', async (req: Request, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const where: Prisma.RoomWhereInput = {
+                AND: [{ isPublic: true, status: 'active' }, searchFilter(req.query.q)]
+            }
+            const pagination = parsePagination(req.query)
+
+            const [rooms, total] = await Promise.all([
+                prisma.room.findMany({
+                    where,
+                    orderBy: { lastActiveAt: 'desc' },
+                    skip: pagination.skip,
+                    take: pagination.take,
+                    include: roomListInclude
+                }),
+                prisma.room.count({ where })
+            ])
+
+            res.json({
+                success: true,
+                rooms: await Promise.all(rooms.map(serializeRoomSummary)),
+                pagination: paginationMeta(pagination, total)
+            })
+        } catch (error) {
+            console.error('获取公开房间错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/rooms/:roomId', async (req: Request<{ roomId: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const room = await prisma.room.findUnique({
+                where: { roomId: req.params.roomId },
+                include: {
+                    ...roomListInclude,
+                    members: {
+                        orderBy: { joinedAt: 'asc' },
+                        include: {
+                            user: { select: { id: true, name: true } }
+                        }
+                    }
+                }
+            })
+
+            const membership = room?.members.find(member => member.userId === payload.userId)
+
+            // 非成员只能查看公开房间的概要信息
+            if (!room || (!membership && !room.isPublic)) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (!membership) {
+                return res.json({
+                    success: true,
+                    room: await serializeRoomSummary(room)
+                })
+            }
+
+            const online = await getOnlineUserIds(room.roomId)
+
+            res.json({
+                success: true,
+                room: {
+                    ...await serializeRoomSummary(room),
+                    myRole: room.ownerId === payload.userId ? 'owner' : normalizeRole(membership.role),
+                    members: room.members.map(member => ({
+                        userId: member.userId,
+                        name: member.user.name,
+                        role: room.ownerId === member.userId ? 'owner' : normalizeRole(member.role),
+                        muted: member.muted,
+                        online: online.has(member.userId),
+                        joinedAt: member.joinedAt
+                    }))
+                }
+            })
+        } catch (error) {
+            console.error('获取房间详情错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
@@ -0,0 +1,182 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { WebSocket } from 'ws'
+import type { ClientConnection } from '../index'
+import { ServerMessage } from '../protocol'
+import { DRAW_BACKPRESSURE_HIGH_WATER, DRAW_BACKPRESSURE_LOW_WATER } from '../constants'
+import { createDrawBatcher, DrawBatcher } from './drawBatcher'
+
+// 只列出断言中读取的字段
+interface SentMessage {
+    type: string
+    events: { userId: string, data: { action: string, element: { id: string, color?: string } } }[]
+}
+
+class FakeSocket {
+    readyState: number = WebSocket.OPEN
+    bufferedAmount = 0
+    sent: SentMessage[] = []
+
+    send(message: string) {
+        this.sent.push(JSON.parse(message))
+    }
+}
+
+const INTERVAL = 50
+const ROOM = 'room-1'
+
+function element(id: string, extra: Record<string, unknown> = {}) {
+    return { id, tool: 'pencil', ...extra }
+}
+
+describe('createDrawBatcher', () => {
+    let clients: Map<string, ClientConnection>
+    let published: ServerMessage[]
+    let batcher: DrawBatcher
+
+    function connect(userId: string, protocolVersion = 3) {
+        const ws = new FakeSocket()
+        const client = { ws, userId, roomId: ROOM, protocolVersion } as unknown as ClientConnection
+        clients.set(`${ROOM}_${userId}`, client)
+        return ws
+    }
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['setInterval'] })
+        clients = new Map()
+        published = []
+        batcher = createDrawBatcher({
+            clients,
+            // 与内存适配器一样，广播的批次直接投递给本实例的连接
+            broadcast: (roomId, message) => {
+                published.push(message)
+                if (message.type === 'draw_batch') {
+                    batcher.deliver(roomId, message.events)
+                }
+            },
+            sendToClient: (ws, message) => ws.send(JSON.stringify(message)),
+            loadSnapshot: async () => ({ data: '[]', layerOrder: null, version: 7 }),
+            record: () => {},
+            intervalMs: INTERVAL
+        })
+    })
+
+    afterEach(() => {
+        batcher.stop()
+        mock.timers.reset()
+    })
+
+    it('合并同一成员对同一元素的连续更新', () => {
+        const viewer = connect('viewer')
+
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('a', { points: [[0, 0]] }) })
+        batcher.queue(ROOM, 'alice', { action: 'update', element: element('a', { points: [[0, 0], [1, 1]] }) })
+        batcher.queue(ROOM, 'alice', { action: 'update', element: element('a', { points: [[0, 0], [1, 1], [2, 2]] }) })
+        mock.timers.tick(INTERVAL)
+
+        assert.equal(viewer.sent.length, 1)
+        assert.deepEqual(viewer.sent[0], {
+            type: 'draw_batch',
+            events: [{ userId: 'alice', data: { action: 'add', element: element('a', { points: [[0, 0], [1, 1], [2, 2]] }) } }]
+        })
+    })
+
+    it('不合并其他成员的更新，也不跨越删除', () => {
+        const viewer = connect('viewer')
+
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('a') })
+        batcher.queue(ROOM, 'bob', { action: 'update', element: element('a', { color: 'red' }) })
+        batcher.queue(ROOM, 'alice', { action: 'delete', elementId: 'a' })
+        batcher.queue(ROOM, 'alice', { action: 'update', element: element('a', { color: 'blue' }) })
+        mock.timers.tick(INTERVAL)
+
+        const actions = viewer.sent[0].events.map(event => `${event.userId}:${event.data.action}`)
+        assert.deepEqual(actions, ['alice:add', 'bob:update', 'alice:delete', 'alice:update'])
+    })
+
+    it('不同元素的事件保持原有顺序', () => {
+        const viewer = connect('viewer')
+
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('a') })
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('b') })
+        batcher.queue(ROOM, 'alice', { action: 'update', element: element('b', { color: 'red' }) })
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('c') })
+        mock.timers.tick(INTERVAL)
+
+        const ids = viewer.sent[0].events.map(event => event.data.element.id)
+        assert.deepEqual(ids, ['a', 'b', 'c'])
+        assert.equal(viewer.sent[0].events[1].data.element.color, 'red')
+    })
+
+    it('flush 立即下发积压的事件，不把成员自己的事件发回给他', () => {
+        const alice = connect('alice')
+        const bob = connect('bob')
+
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('a') })
+        batcher.queue(ROOM, 'bob', { action: 'add', element: element('b') })
+        batcher.flush(ROOM)
+
+        assert.equal(published.length, 1)
+        assert.deepEqual(alice.sent[0].events.map(event => event.userId), ['bob'])
+        assert.deepEqual(bob.sent[0].events.map(event => event.userId), ['alice'])
+
+        // 已经下发过，定时器不会重复发送
+        mock.timers.tick(INTERVAL)
+        assert.equal(published.length, 1)
+    })
+
+    it('旧协议的客户端逐条收到 draw_event', () => {
+        const legacy = connect('legacy', 2)
+
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('a') })
+        batcher.queue(ROOM, 'legacy', { action: 'add', element: element('b') })
+        batcher.queue(ROOM, 'bob', { action: 'clear' })
+        mock.timers.tick(INTERVAL)
+
+        assert.deepEqual(legacy.sent, [
+            { type: 'draw_event', userId: 'alice', data: { action: 'add', element: element('a') } },
+            { type: 'draw_event', userId: 'bob', data: { action: 'clear' } }
+        ])
+    })
+
+    it('积压超过上限时暂停下发，降到下限以下后补发快照', async () => {
+        const slow = connect('slow')
+
+        slow.bufferedAmount = DRAW_BACKPRESSURE_HIGH_WATER + 1
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('a') })
+        mock.timers.tick(INTERVAL)
+        assert.equal(slow.sent.length, 0)
+
+        // 积压开始回落但仍高于下限，继续丢弃
+        slow.bufferedAmount = DRAW_BACKPRESSURE_LOW_WATER + 1
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('b') })
+        mock.timers.tick(INTERVAL)
+        assert.equal(slow.sent.length, 0)
+
+        slow.bufferedAmount = 0
+        mock.timers.tick(INTERVAL)
+        await new Promise(setImmediate)
+        assert.deepEqual(slow.sent, [
+            { type: 'snapshot_data', data: '[]', layerOrder: null, version: 7, resync: true }
+        ])
+
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('c') })
+        mock.timers.tick(INTERVAL)
+        assert.equal(slow.sent.length, 2)
+        assert.equal(slow.sent[1].type, 'draw_batch')
+    })
+
+    it('等待补发期间断开的连接不再补发', async () => {
+        const slow = connect('slow')
+
+        slow.bufferedAmount = DRAW_BACKPRESSURE_HIGH_WATER + 1
+        batcher.queue(ROOM, 'alice', { action: 'add', element: element('a') })
+        mock.timers.tick(INTERVAL)
+
+        clients.delete(`${ROOM}_slow`)
+        slow.bufferedAmount = 0
+        mock.timers.tick(INTERVAL)
+        await new Promise(setImmediate)
+        assert.equal(slow.sent.length, 0)
+    })
+})
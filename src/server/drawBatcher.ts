@@ -0,0 +1,219 @@
+import { WebSocket } from 'ws'
+import type { ClientConnection } from '../index'
+import type { RoomThroughput } from './roomMetrics'
+import { DrawEventEntry, ServerMessage } from '../protocol'
+import {
+    DRAW_BATCH_INTERVAL_MS,
+    DRAW_BACKPRESSURE_HIGH_WATER,
+    DRAW_BACKPRESSURE_LOW_WATER
+} from '../constants'
+import { DrawOperation, RoomElement, isDrawOperation } from './roomState'
+
+type ElementOperation = Extract<DrawOperation, { element: RoomElement }>
+
+interface PendingBatch {
+    events: DrawEventEntry[]
+    // 元素ID -> 队列中最后一个新增或更新该元素的事件，后续的更新合并进去
+    latest: Map<string, DrawEventEntry>
+}
+
+export interface RoomSnapshotState {
+    data: string
+    layerOrder: unknown
+    version: number
+}
+
+export interface DrawBatcherDeps {
+    // 本实例上的连接，键为 `${roomId}_${userId}`
+    clients: Map<string, ClientConnection>
+    broadcast: (roomId: string, message: ServerMessage) => void
+    sendToClient: (ws: WebSocket, message: ServerMessage) => void
+    loadSnapshot: (roomId: string) => Promise<RoomSnapshotState>
+    record: (roomId: string, field: keyof RoomThroughput, amount?: number) => void
+    intervalMs?: number
+}
+
+export interface DrawBatcher {
+    queue(roomId: string, userId: string, data: unknown): void
+    flush(roomId: string): void
+    deliver(roomId: string, events: DrawEventEntry[]): void
+    stop(): void
+}
+
+function trackElements(batch: PendingBatch, entry: DrawEventEntry) {
+    if (!isDrawOperation(entry.data)) {
+        // 无法识别的事件可能影响任意元素，之前的事件都不能再合并
+        batch.latest.clear()
+        return
+    }
+
+    const operation = entry.data
+    switch (operation.action) {
+        case 'add':
+        case 'update':
+            batch.latest.set(operation.element.id, entry)
+            break
+        case 'delete':
+            for (const id of operation.elementIds || [operation.elementId as string]) {
+                batch.latest.delete(id)
+            }
+            break
+        case 'clear':
+            batch.latest.clear()
+            break
+    }
+}
+
+export function createDrawBatcher(deps: DrawBatcherDeps): DrawBatcher {
+    const { clients, record } = deps
+    const pendingBatches = new Map<string, PendingBatch>()
+
+    // 积压过多、正在等待补发快照的连接
+    const awaitingResync = new Set<ClientConnection>()
+
+    // 同一成员对同一元素的连续更新（例如绘制中的笔画）只保留合并后的结果
+    function queue(roomId: string, userId: string, data: unknown) {
+        record(roomId, 'eventsIn')
+
+        let batch = pendingBatches.get(roomId)
+        if (!batch) {
+            batch = { events: [], latest: new Map() }
+            pendingBatches.set(roomId, batch)
+        }
+
+        if (isDrawOperation(data) && data.action === 'update') {
+            const previous = batch.latest.get(data.element.id)
+            if (previous && previous.userId === userId) {
+                const operation = previous.data as ElementOperation
+                previous.data = { ...operation, element: { ...operation.element, ...data.element } }
+                return
+            }
+        }
+
+        const entry: DrawEventEntry = { userId, data }
+        batch.events.push(entry)
+        trackElements(batch, entry)
+    }
+
+    // 其他房间消息发出前先下发积压的绘画事件，保证客户端收到的顺序不变
+    function flush(roomId: string) {
+        const batch = pendingBatches.get(roomId)
+        if (!batch) {
+            return
+        }
+        pendingBatches.delete(roomId)
+
+        record(roomId, 'eventsOut', batch.events.length)
+        record(roomId, 'batches')
+        deps.broadcast(roomId, { type: 'draw_batch', events: batch.events })
+    }
+
+    function send(client: ClientConnection, message: string) {
+        client.ws.send(message)
+        record(client.roomId, 'bytesSent', Buffer.byteLength(message))
+    }
+
+    // 连接积压超过上限时丢弃绘画事件，之后改为补发快照
+    function admitDrawBatch(client: ClientConnection) {
+        if (awaitingResync.has(client)) {
+            record(client.roomId, 'droppedBatches')
+            return false
+        }
+
+        if (client.ws.bufferedAmount > DRAW_BACKPRESSURE_HIGH_WATER) {
+            console.warn(`用户 ${client.userId} (房间: ${client.roomId}) 待发送数据过多，暂停下发绘画事件`)
+            awaitingResync.add(client)
+            record(client.roomId, 'droppedBatches')
+            return false
+        }
+
+        return true
+    }
+
+    // 由房间适配器调用，按连接的协议版本和积压情况下发
+    function deliver(roomId: string, events: DrawEventEntry[]) {
+        const entries = events.map(event => JSON.stringify(event))
+        let batchMessage: string | null = null
+        let legacyMessages: string[] | null = null
+
+        clients.forEach(client => {
+            if (client.roomId !== roomId || client.ws.readyState !== WebSocket.OPEN || !admitDrawBatch(client)) {
+                return
+            }
+
+            // 不把成员自己的事件发回给他
+            const ownEvents = events.some(event => event.userId === client.userId)
+
+            if (client.protocolVersion >= 3) {
+                let message: string
+                if (ownEvents) {
+                    const others = entries.filter((_, index) => events[index].userId !== client.userId)
+                    if (others.length === 0) {
+                        return
+                    }
+                    message = `{"type":"draw_batch","events":[${others.join(',')}]}`
+                } else {
+                    batchMessage ??= `{"type":"draw_batch","events":[${entries.join(',')}]}`
+                    message = batchMessage
+                }
+                send(client, message)
+                return
+            }
+
+            legacyMessages ??= events.map(event => JSON.stringify({ type: 'draw_event', ...event }))
+            legacyMessages.forEach((message, index) => {
+                if (events[index].userId !== client.userId) {
+                    send(client, message)
+                }
+            })
+        })
+    }
+
+    async function sendResync(client: ClientConnection) {
+        const state = await deps.loadSnapshot(client.roomId)
+        deps.sendToClient(client.ws, {
+            type: 'snapshot_data',
+            data: state.data,
+            layerOrder: state.layerOrder,
+            version: state.version,
+            resync: true
+        })
+        record(client.roomId, 'resyncs')
+        record(client.roomId, 'bytesSent', Buffer.byteLength(state.data))
+        console.log(`向用户 ${client.userId} (房间: ${client.roomId}) 补发快照 (版本 ${state.version})`)
+    }
+
+    // 积压降到下限以下的连接补发一次完整快照，之后恢复正常下发
+    function resyncDrainedClients() {
+        for (const client of awaitingResync) {
+            const current = clients.get(`${client.roomId}_${client.userId}`)
+            if (current !== client || client.ws.readyState !== WebSocket.OPEN) {
+                awaitingResync.delete(client)
+                continue
+            }
+            if (client.ws.bufferedAmount > DRAW_BACKPRESSURE_LOW_WATER) {
+                continue
+            }
+
+            awaitingResync.delete(client)
+            sendResync(client).catch(error => {
+                console.error(`向用户 ${client.userId} 补发快照失败:`, error)
+            })
+        }
+    }
+
+    const timer = setInterval(() => {
+        for (const roomId of [...pendingBatches.keys()]) {
+            flush(roomId)
+        }
+        resyncDrainedClients()
+    }, deps.intervalMs ?? DRAW_BATCH_INTERVAL_MS)
+    timer.unref()
+
+    return {
+        queue,
+        flush,
+        deliver,
+        stop: () => clearInterval(timer)
+    }
+}
@@ -0,0 +1,462 @@
+import prisma from '../lib/prisma'
+import { Request, Response, Express } from 'express'
+import { verifyToken } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { responseMessage } from '../utils/messages'
+import { parsePagination, paginationMeta } from '../utils/pagination'
+import { MAX_PATHS_PER_REQUEST } from '../constants'
+import { object, string, number, array, unknown, validateBody, Infer } from '../utils/validation'
+
+const drawingPathSchema = {
+    tool: string({ max: 32 }).optional(),
+    points: unknown(),
+    color: string({ max: 32 }),
+    lineWidth: number({ integer: true, min: 1 }).optional()
+}
+
+const pathsSchema = array(object(drawingPathSchema), { max: MAX_PATHS_PER_REQUEST })
+
+type DrawingPathInput = Infer<typeof pathsSchema>[number]
+
+const createDrawingSchema = object({
+    name: string({ min: 0, max: 191 }).optional()
+})
+
+type CreateDrawingRequestBody = Infer<typeof createDrawingSchema>
+
+const renameDrawingSchema = object({
+    sessionId: string({ max: 191 }),
+    name: string({ trim: true, max: 191 })
+})
+
+type RenameDrawingRequestBody = Infer<typeof renameDrawingSchema>
+
+const deleteDrawingSchema = object({
+    sessionId: string({ max: 191 })
+})
+
+type DeleteDrawingRequestBody = Infer<typeof deleteDrawingSchema>
+
+const addPathsSchema = object({
+    sessionId: string({ max: 191 }),
+    paths: pathsSchema
+})
+
+type AddPathsRequestBody = Infer<typeof addPathsSchema>
+
+// 更新时每条路径必须带上 id
+const updatePathsSchema = object({
+    sessionId: string({ max: 191 }),
+    paths: array(object({ ...drawingPathSchema, id: string({ max: 191 }) }), { max: MAX_PATHS_PER_REQUEST })
+})
+
+type UpdatePathsRequestBody = Infer<typeof updatePathsSchema>
+
+const deletePathsSchema = object({
+    sessionId: string({ max: 191 }),
+    pathIds: array(string({ max: 191 }), { max: MAX_PATHS_PER_REQUEST })
+})
+
+type DeletePathsRequestBody = Infer<typeof deletePathsSchema>
+
+interface NormalizedPath {
+    tool: string
+    points: string
+    color: string
+    lineWidth: number
+}
+
+// points 在数据库中以 JSON 字符串保存，客户端既可以传数组也可以传已序列化的字符串
+function normalizePath(input: DrawingPathInput): NormalizedPath | null {
+    let points: string
+    if (typeof input.points === 'string') {
+        points = input.points
+    } else if (Array.isArray(input.points)) {
+        points = JSON.stringify(input.points)
+    } else {
+        return null
+    }
+
+    return {
+        tool: input.tool || 'pencil',
+        points,
+        color: input.color,
+        lineWidth: input.lineWidth ?? 2
+    }
+}
+
+function serializePath(path: { id: string, tool: string, points: string, color: string, lineWidth: number, createdAt: Date, updatedAt: Date }) {
+    let points: unknown = path.points
+    try {
+        points = JSON.parse(path.points)
+    } catch (e) {
+        // 旧数据可能不是 JSON，原样返回
+    }
+
+    return {
+        id: path.id,
+        tool: path.tool,
+        points,
+        color: path.color,
+        lineWidth: path.lineWidth,
+        createdAt: path.createdAt,
+        updatedAt: path.updatedAt
+    }
+}
+
+function findOwnedSession(sessionId: string, userId: string) {
+    return prisma.drawingSession.findFirst({
+        where: {
+            id: sessionId,
+            ownerId: userId
+        }
+    })
+}
+
+export function setupDrawingRoutes(app: Express) {
+    app.post('/api/drawings', validateBody(createDrawingSchema), async (req: Request<{}, {}, CreateDrawingRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const name = req.body.name?.trim() || '未命名画板'
+
+            const session = await prisma.drawingSession.create({
+                data: {
+                    name,
+                    ownerId: payload.userId
+                }
+            })
+
+            res.status(201).json({
+                success: true,
+                message: responseMessage(res, 'drawing_created'),
+                session
+            })
+        } catch (error) {
+            console.error('创建画板错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/drawings', async (req: Request, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const pagination = parsePagination(req.query)
+            const where = { ownerId: payload.userId }
+
+            const [sessions, total] = await Promise.all([
+                prisma.drawingSession.findMany({
+                    where,
+                    orderBy: { updatedAt: 'desc' },
+                    skip: pagination.skip,
+                    take: pagination.take,
+                    include: {
+                        _count: { select: { paths: true } }
+                    }
+                }),
+                prisma.drawingSession.count({ where })
+            ])
+
+            res.json({
+                success: true,
+                sessions: sessions.map(session => ({
+                    id: session.id,
+                    name: session.name,
+                    pathCount: session._count.paths,
+                    createdAt: session.createdAt,
+                    updatedAt: session.updatedAt
+                })),
+                pagination: paginationMeta(pagination, total)
+            })
+        } catch (error) {
+            console.error('获取画板列表错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/drawings/:sessionId', async (req: Request<{ sessionId: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const session = await findOwnedSession(req.params.sessionId, payload.userId)
+            if (!session) {
+                return sendError(res, 'drawing_not_found')
+            }
+
+            const pagination = parsePagination(req.query)
+            const where = { sessionId: session.id }
+
+            const [paths, total] = await Promise.all([
+                prisma.drawingPath.findMany({
+                    where,
+                    orderBy: { createdAt: 'asc' },
+                    skip: pagination.skip,
+                    take: pagination.take
+                }),
+                prisma.drawingPath.count({ where })
+            ])
+
+            res.json({
+                success: true,
+                session: {
+                    id: session.id,
+                    name: session.name,
+                    createdAt: session.createdAt,
+                    updatedAt: session.updatedAt,
+                    paths: paths.map(serializePath)
+                },
+                pagination: paginationMeta(pagination, total)
+            })
+        } catch (error) {
+            console.error('获取画板错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/drawings/rename', validateBody(renameDrawingSchema), async (req: Request<{}, {}, RenameDrawingRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { sessionId, name } = req.body
+
+            const session = await findOwnedSession(sessionId, payload.userId)
+            if (!session) {
+                return sendError(res, 'drawing_not_found')
+            }
+
+            const updatedSession = await prisma.drawingSession.update({
+                where: { id: session.id },
+                data: { name }
+            })
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'drawing_renamed'),
+                session: updatedSession
+            })
+        } catch (error) {
+            console.error('重命名画板错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/drawings/delete', validateBody(deleteDrawingSchema), async (req: Request<{}, {}, DeleteDrawingRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { sessionId } = req.body
+
+            const session = await findOwnedSession(sessionId, payload.userId)
+            if (!session) {
+                return sendError(res, 'drawing_not_found')
+            }
+
+            // DrawingPath 的外键是 SetNull，需要手动删除路径，避免留下孤立数据
+            await prisma.$transaction([
+                prisma.drawingPath.deleteMany({ where: { sessionId: session.id } }),
+                prisma.drawingSession.delete({ where: { id: session.id } })
+            ])
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'drawing_deleted')
+            })
+        } catch (error) {
+            console.error('删除画板错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/drawings/paths', validateBody(addPathsSchema), async (req: Request<{}, {}, AddPathsRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { sessionId, paths } = req.body
+
+            const normalized: NormalizedPath[] = []
+            for (const path of paths) {
+                const result = normalizePath(path)
+                if (!result) {
+                    return sendError(res, 'invalid_path_data')
+                }
+                normalized.push(result)
+            }
+
+            const session = await findOwnedSession(sessionId, payload.userId)
+            if (!session) {
+                return sendError(res, 'drawing_not_found')
+            }
+
+            const created = await prisma.$transaction(
+                normalized.map(data => prisma.drawingPath.create({
+                    data: {
+                        ...data,
+                        userId: payload.userId,
+                        sessionId: session.id
+                    }
+                }))
+            )
+            await prisma.drawingSession.update({
+                where: { id: session.id },
+                data: { updatedAt: new Date() }
+            })
+
+            res.status(201).json({
+                success: true,
+                message: responseMessage(res, 'path_saved'),
+                paths: created.map(serializePath)
+            })
+        } catch (error) {
+            console.error('保存路径错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/drawings/paths/update', validateBody(updatePathsSchema), async (req: Request<{}, {}, UpdatePathsRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { sessionId, paths } = req.body
+
+            const updates: { id: string, data: NormalizedPath }[] = []
+            for (const path of paths) {
+                const result = normalizePath(path)
+                if (!result) {
+                    return sendError(res, 'invalid_path_data')
+                }
+                updates.push({ id: path.id, data: result })
+            }
+
+            const session = await findOwnedSession(sessionId, payload.userId)
+            if (!session) {
+                return sendError(res, 'drawing_not_found')
+            }
+
+            const results = await prisma.$transaction(
+                updates.map(({ id, data }) => prisma.drawingPath.updateMany({
+                    where: { id, sessionId: session.id },
+                    data
+                }))
+            )
+            await prisma.drawingSession.update({
+                where: { id: session.id },
+                data: { updatedAt: new Date() }
+            })
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'path_updated'),
+                updated: results.reduce((sum, result) => sum + result.count, 0)
+            })
+        } catch (error) {
+            console.error('更新路径错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/drawings/paths/delete', validateBody(deletePathsSchema), async (req: Request<{}, {}, DeletePathsRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { sessionId, pathIds } = req.body
+
+            const session = await findOwnedSession(sessionId, payload.userId)
+            if (!session) {
+                return sendError(res, 'drawing_not_found')
+            }
+
+            const result = await prisma.drawingPath.deleteMany({
+                where: {
+                    id: { in: pathIds },
+                    sessionId: session.id
+                }
+            })
+            await prisma.drawingSession.update({
+                where: { id: session.id },
+                data: { updatedAt: new Date() }
+            })
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'path_deleted'),
+                deleted: result.count
+            })
+        } catch (error) {
+            console.error('删除路径错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
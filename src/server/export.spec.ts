@@ -0,0 +1,115 @@
+import { describe, it, before, after, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+    normalizePoints,
+    orderElements,
+    collectAssets,
+    renderSvg,
+    buildBundle,
+    BUNDLE_FORMAT,
+    BUNDLE_VERSION,
+    ExportElement
+} from './export'
+import { parseImportFile } from './importParser'
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+describe('normalizePoints', () => {
+    it('兼容平铺数组、坐标对、坐标对象和 JSON 字符串', () => {
+        assert.deepEqual(normalizePoints([0, 1, 2, 3, 4]), [[0, 1], [2, 3]])
+        assert.deepEqual(normalizePoints([[0, 1], [2, 3]]), [[0, 1], [2, 3]])
+        assert.deepEqual(normalizePoints([{ x: 0, y: 1 }, { x: 'a', y: 2 }]), [[0, 1]])
+        assert.deepEqual(normalizePoints('[[5,6]]'), [[5, 6]])
+        assert.deepEqual(normalizePoints('[[5,'), [])
+        assert.deepEqual(normalizePoints(null), [])
+    })
+})
+
+describe('orderElements', () => {
+    it('按图层或元素ID排序，未出现在 layerOrder 中的排在最上层并保持原顺序', () => {
+        const elements: ExportElement[] = [{ id: 'a' }, { id: 'b', layerId: 'top' }, { id: 'c' }, { id: 'd' }]
+
+        const ordered = orderElements(elements, ['d', { id: 'top' }, 'a'])
+        assert.deepEqual(ordered.map(element => element.id), ['d', 'b', 'a', 'c'])
+        assert.equal(orderElements(elements, null), elements)
+    })
+})
+
+describe('导出附件和 SVG', () => {
+    const cwd = process.cwd()
+    let workDir: string
+
+    before(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-spec-'))
+        fs.mkdirSync(path.join(workDir, 'uploads'))
+        fs.writeFileSync(path.join(workDir, 'uploads', 'photo 1.png'), PNG)
+        process.chdir(workDir)
+    })
+
+    after(() => {
+        process.chdir(cwd)
+        fs.rmSync(workDir, { recursive: true, force: true })
+    })
+
+    it('只内嵌 uploads 目录中存在的文件，地址无法解码时跳过并提示', async () => {
+        const warn = mock.method(console, 'warn', () => {})
+        try {
+            const assets = await collectAssets([
+                { id: 'a', type: 'image', src: 'http://host/uploads/photo%201.png' },
+                { id: 'b', type: 'image', src: 'http://host/uploads/photo%201.png' },
+                { id: 'c', type: 'image', url: 'http://host/uploads/..%2F..%2Fphoto%201.png' },
+                { id: 'd', type: 'image', src: 'http://host/uploads/missing.png' },
+                { id: 'e', type: 'image', src: 'http://host/uploads/bad%E0%A4%A.png' },
+                { id: 'f', type: 'image', src: 'http://other/images/photo.png' }
+            ])
+
+            assert.deepEqual(assets.map(asset => [asset.url, asset.filename, asset.mimeType]), [
+                ['http://host/uploads/photo%201.png', 'photo 1.png', 'image/png'],
+                ['http://host/uploads/..%2F..%2Fphoto%201.png', 'photo 1.png', 'image/png']
+            ])
+            assert.deepEqual(Buffer.from(assets[0].data, 'base64'), PNG)
+            assert.equal(warn.mock.callCount(), 1)
+        } finally {
+            warn.mock.restore()
+        }
+    })
+
+    it('SVG 按图层顺序输出，属性值会转义，已内嵌的图片使用 data URI', async () => {
+        const elements: ExportElement[] = [
+            { id: 'stroke', tool: 'pencil', points: [[0, 0], [10, 10]], color: '"><script>', lineWidth: 2 },
+            { id: 'box', tool: 'rect', points: [[10, 10], [0, 0]], color: '#00ff00' },
+            { id: 'photo', type: 'image', src: 'http://host/uploads/photo%201.png', x: 1, y: 2, width: 3, height: 4 }
+        ]
+        const bundle = await buildBundle({ type: 'drawing', id: 'drawing-1', name: null }, elements, null)
+        const svg = renderSvg(bundle.elements, ['photo', 'box'], bundle.assets)
+
+        assert.ok(svg.indexOf('<image') < svg.indexOf('<rect x="0" y="0" width="10" height="10"'))
+        assert.ok(svg.includes(`href="data:image/png;base64,${PNG.toString('base64')}"`))
+        assert.ok(svg.includes('stroke="&quot;&gt;&lt;script&gt;"'))
+        assert.ok(!svg.includes('<script>'))
+    })
+
+    it('导出后再导入得到相同的元素和图层顺序', async () => {
+        const elements: ExportElement[] = [
+            { id: 'line', tool: 'line', points: [[0, 0], [5, 5]], color: '#123456', lineWidth: 4 },
+            { id: 'note', tool: 'highlighter', points: [[1, 1], [2, 2]], label: '你好' }
+        ]
+        const bundle = await buildBundle({ type: 'room', id: 'ROOM01', name: '房间' }, elements, ['note', 'line'])
+        assert.equal(bundle.format, BUNDLE_FORMAT)
+        assert.equal(bundle.version, BUNDLE_VERSION)
+
+        const parsed = parseImportFile({
+            buffer: Buffer.from(JSON.stringify(bundle)),
+            originalname: 'room.json',
+            mimetype: 'application/json'
+        } as Express.Multer.File)
+
+        assert.equal(parsed.name, '房间')
+        assert.deepEqual(parsed.elements, elements)
+        assert.deepEqual(parsed.layerOrder, ['note', 'line'])
+        assert.deepEqual(parsed.warnings, [])
+    })
+})
@@ -0,0 +1,393 @@
+import prisma from '../lib/prisma'
+import { Request, Response, Express } from 'express'
+import path from 'path'
+import fs from 'fs'
+import { verifyToken } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { readRoomState, parseElements } from './roomState'
+
+export const BUNDLE_FORMAT = 'infinitec-bundle'
+
+export const BUNDLE_VERSION = 1
+
+export interface ExportElement {
+    id: string
+    tool?: string
+    type?: string
+    points?: unknown
+    color?: string
+    lineWidth?: number
+    [key: string]: unknown
+}
+
+export interface BundleAsset {
+    url: string
+    filename: string
+    mimeType: string
+    data: string
+}
+
+export interface ExportBundle {
+    format: typeof BUNDLE_FORMAT
+    version: number
+    exportedAt: string
+    source: {
+        type: 'room' | 'drawing'
+        id: string
+        name: string | null
+    }
+    layerOrder: unknown
+    elements: ExportElement[]
+    assets: BundleAsset[]
+}
+
+const MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml'
+}
+
+const SVG_PADDING = 20
+
+function escapeXml(value: unknown): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+}
+
+// 兼容 [x1, y1, x2, y2]、[[x, y]]、[{ x, y }] 以及它们的 JSON 字符串
+export function normalizePoints(points: unknown): [number, number][] {
+    let value = points
+    if (typeof value === 'string') {
+        try {
+            value = JSON.parse(value)
+        } catch (e) {
+            return []
+        }
+    }
+    if (!Array.isArray(value)) {
+        return []
+    }
+
+    const result: [number, number][] = []
+    if (value.every(item => typeof item === 'number')) {
+        for (let i = 0; i + 1 < value.length; i += 2) {
+            result.push([value[i], value[i + 1]])
+        }
+        return result
+    }
+
+    for (const item of value) {
+        if (Array.isArray(item) && typeof item[0] === 'number' && typeof item[1] === 'number') {
+            result.push([item[0], item[1]])
+        } else if (item && typeof item.x === 'number' && typeof item.y === 'number') {
+            result.push([item.x, item.y])
+        }
+    }
+    return result
+}
+
+// layerOrder 按绘制顺序排列（先出现的在底层），既可以是元素ID也可以是图层ID
+export function orderElements(elements: ExportElement[], layerOrder: unknown): ExportElement[] {
+    if (!Array.isArray(layerOrder) || layerOrder.length === 0) {
+        return elements
+    }
+
+    const rank = new Map<string, number>()
+    layerOrder.forEach((entry, index) => {
+        const key = typeof entry === 'string' ? entry : entry?.id
+        if (typeof key === 'string' && !rank.has(key)) {
+            rank.set(key, index)
+        }
+    })
+
+    const keyOf = (element: ExportElement) => {
+        const layerId = typeof element.layerId === 'string' ? element.layerId : undefined
+        const byLayer = layerId !== undefined ? rank.get(layerId) : undefined
+        return byLayer ?? rank.get(element.id) ?? Number.MAX_SAFE_INTEGER
+    }
+
+    return elements
+        .map((element, index) => ({ element, index, key: keyOf(element) }))
+        .sort((a, b) => a.key - b.key || a.index - b.index)
+        .map(item => item.element)
+}
+
+function imageUrlOf(element: ExportElement): string | null {
+    for (const field of ['src', 'url', 'href']) {
+        if (typeof element[field] === 'string') {
+            return element[field] as string
+        }
+    }
+    return null
+}
+
+function decodeFilename(encoded: string): string | null {
+    try {
+        return path.basename(decodeURIComponent(encoded))
+    } catch (e) {
+        return null
+    }
+}
+
+// 只内嵌本服务 /uploads 目录下的图片，文件名取 basename 防止路径穿越
+export async function collectAssets(elements: ExportElement[]): Promise<BundleAsset[]> {
+    const uploadDir = path.join(process.cwd(), 'uploads')
+    const assets = new Map<string, BundleAsset>()
+
+    for (const element of elements) {
+        const url = imageUrlOf(element)
+        const match = url?.match(/\/uploads\/([^/?#]+)/)
+        if (!url || !match || assets.has(url)) {
+            continue
+        }
+
+        const filename = decodeFilename(match[1])
+        if (!filename) {
+            console.warn(`导出时跳过无法解析的附件地址: ${url}`)
+            continue
+        }
+
+        let data: Buffer
+        try {
+            data = await fs.promises.readFile(path.join(uploadDir, filename))
+        } catch (e) {
+            // 文件已被删除时保留原地址
+            continue
+        }
+
+        assets.set(url, {
+            url,
+            filename,
+            mimeType: MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream',
+            data: data.toString('base64')
+        })
+    }
+
+    return Array.from(assets.values())
+}
+
+function renderElement(element: ExportElement, assets: Map<string, BundleAsset>): string | null {
+    const kind = element.type || element.tool || 'pencil'
+    const color = escapeXml(element.color || '#000000')
+    const lineWidth = Number(element.lineWidth) || 2
+    const stroke = `stroke="${color}" stroke-width="${lineWidth}" stroke-linecap="round" stroke-linejoin="round" fill="none"`
+
+    if (kind === 'image') {
+        const url = imageUrlOf(element)
+        if (!url) {
+            return null
+        }
+        const asset = assets.get(url)
+        const href = asset ? `data:${asset.mimeType};base64,${asset.data}` : url
+        return `<image href="${escapeXml(href)}" x="${Number(element.x) || 0}" y="${Number(element.y) || 0}" width="${Number(element.width) || 0}" height="${Number(element.height) || 0}"/>`
+    }
+
+    const points = normalizePoints(element.points)
+    if (points.length === 0) {
+        return null
+    }
+
+    const [first, last] = [points[0], points[points.length - 1]]
+
+    switch (kind) {
+        case 'line':
+            return `<line x1="${first[0]}" y1="${first[1]}" x2="${last[0]}" y2="${last[1]}" ${stroke}/>`
+        case 'rect':
+        case 'rectangle':
+            return `<rect x="${Math.min(first[0], last[0])}" y="${Math.min(first[1], last[1])}" width="${Math.abs(last[0] - first[0])}" height="${Math.abs(last[1] - first[1])}" ${stroke}/>`
+        case 'circle':
+        case 'ellipse':
+            return `<ellipse cx="${(first[0] + last[0]) / 2}" cy="${(first[1] + last[1]) / 2}" rx="${Math.abs(last[0] - first[0]) / 2}" ry="${Math.abs(last[1] - first[1]) / 2}" ${stroke}/>`
+        default: {
+            const d = points.map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x} ${y}`).join(' ')
+            // 橡皮擦在静态 SVG 中用背景色覆盖
+            const strokeAttrs = kind === 'eraser' ? stroke.replace(`stroke="${color}"`, 'stroke="#ffffff"') : stroke
+            const opacity = kind === 'highlighter' ? ' stroke-opacity="0.4"' : ''
+            return `<path d="${d}" ${strokeAttrs}${opacity}/>`
+        }
+    }
+}
+
+function computeBounds(elements: ExportElement[]) {
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+
+    for (const element of elements) {
+        const extend = Number(element.lineWidth) || 2
+        const points = normalizePoints(element.points)
+        if ((element.type || element.tool) === 'image') {
+            const x = Number(element.x) || 0
+            const y = Number(element.y) || 0
+            points.push([x, y], [x + (Number(element.width) || 0), y + (Number(element.height) || 0)])
+        }
+        for (const [x, y] of points) {
+            minX = Math.min(minX, x - extend)
+            minY = Math.min(minY, y - extend)
+            maxX = Math.max(maxX, x + extend)
+            maxY = Math.max(maxY, y + extend)
+        }
+    }
+
+    if (minX === Infinity) {
+        return { x: 0, y: 0, width: 1, height: 1 }
+    }
+
+    return {
+        x: minX - SVG_PADDING,
+        y: minY - SVG_PADDING,
+        width: maxX - minX + SVG_PADDING * 2,
+        height: maxY - minY + SVG_PADDING * 2
+    }
+}
+
+export function renderSvg(elements: ExportElement[], layerOrder: unknown, assets: BundleAsset[]): string {
+    const ordered = orderElements(elements, layerOrder)
+    const assetMap = new Map(assets.map(asset => [asset.url, asset]))
+    const bounds = computeBounds(ordered)
+    const body = ordered
+        .map(element => renderElement(element, assetMap))
+        .filter((markup): markup is string => markup !== null)
+        .map(markup => `  ${markup}`)
+        .join('\n')
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}" width="${bounds.width}" height="${bounds.height}">`,
+        `  <rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="#ffffff"/>`,
+        body,
+        '</svg>',
+        ''
+    ].join('\n')
+}
+
+export async function buildBundle(source: ExportBundle['source'], elements: ExportElement[], layerOrder: unknown): Promise<ExportBundle> {
+    return {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        source,
+        layerOrder: layerOrder ?? null,
+        elements,
+        assets: await collectAssets(elements)
+    }
+}
+
+function sendExport(res: Response, format: string, name: string, bundle: ExportBundle) {
+    if (format === 'svg') {
+        res.attachment(`${name}.svg`)
+        res.type('image/svg+xml')
+        return res.send(renderSvg(bundle.elements, bundle.layerOrder, bundle.assets))
+    }
+
+    res.attachment(`${name}.json`)
+    res.type('application/json')
+    res.send(JSON.stringify(bundle))
+}
+
+export function setupExportRoutes(app: Express) {
+    app.get('/api/rooms/:roomId/export', async (req: Request<{ roomId: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const format = String(req.query.format || 'json')
+            if (format !== 'json' && format !== 'svg') {
+                return sendError(res, 'invalid_export_format')
+            }
+
+            const room = await prisma.room.findUnique({
+                where: { roomId: req.params.roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            const member = await prisma.roomMember.findUnique({
+                where: {
+                    roomId_userId: {
+                        roomId: room.id,
+                        userId: payload.userId
+                    }
+                }
+            })
+
+            if (!member) {
+                return sendError(res, 'not_a_member')
+            }
+
+            const state = await readRoomState(room.roomId)
+            const elements = parseElements(state.data) || []
+            const bundle = await buildBundle({ type: 'room', id: room.roomId, name: room.name }, elements, state.layerOrder)
+
+            sendExport(res, format, room.name || room.roomId, bundle)
+        } catch (error) {
+            console.error('导出房间错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/drawings/:sessionId/export', async (req: Request<{ sessionId: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const format = String(req.query.format || 'json')
+            if (format !== 'json' && format !== 'svg') {
+                return sendError(res, 'invalid_export_format')
+            }
+
+            const session = await prisma.drawingSession.findFirst({
+                where: {
+                    id: req.params.sessionId,
+                    ownerId: payload.userId
+                },
+                include: {
+                    paths: { orderBy: { createdAt: 'asc' } }
+                }
+            })
+
+            if (!session) {
+                return sendError(res, 'drawing_not_found')
+            }
+
+            const elements: ExportElement[] = session.paths.map(path => ({
+                id: path.id,
+                tool: path.tool,
+                points: normalizePoints(path.points),
+                color: path.color,
+                lineWidth: path.lineWidth
+            }))
+            const bundle = await buildBundle({ type: 'drawing', id: session.id, name: session.name }, elements, null)
+
+            sendExport(res, format, session.name, bundle)
+        } catch (error) {
+            console.error('导出画板错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
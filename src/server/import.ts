@@ -0,0 +1,174 @@
+import prisma from '../lib/prisma'
+import { Request, Response, NextFunction, Express } from 'express'
+import path from 'path'
+import multer from 'multer'
+import { JWTPayload } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { responseMessage } from '../utils/messages'
+import { object, string, validateBody, Infer } from '../utils/validation'
+import { importUpload } from '../utils/upload'
+import { broadcastToRoom, sendRoomControl, clients } from '../index'
+import { normalizePoints } from './export'
+import { ImportIssue, ImportValidationError, parseImportFile, materializeAssets } from './importParser'
+import { requireAuth } from './sessions'
+import { getRoomDocument, replaceDocument, flushRoomDocument, dropRoomDocument, serializeDocument, RoomElement } from './roomState'
+import { createRevision } from './revisions'
+
+// multipart 表单中未填写的字段会以空字符串提交，这里允许为空
+const importDrawingSchema = object({
+    sessionId: string({ min: 0, max: 191 }).optional(),
+    name: string({ min: 0, max: 191 }).optional()
+})
+
+type ImportDrawingRequestBody = Infer<typeof importDrawingSchema>
+
+const importRoomSchema = object({
+    roomId: string({ max: 191 })
+})
+
+type ImportRoomRequestBody = Infer<typeof importRoomSchema>
+
+function localizeIssues(res: Response, issues: ImportIssue[]): string[] {
+    return issues.map(issue => responseMessage(res, issue.key, issue.params))
+}
+
+function receiveImportFile(req: Request, res: Response, next: NextFunction) {
+    importUpload.single('file')(req, res, (error: unknown) => {
+        if (error) {
+            return sendError(res, error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE' ? 'file_too_large' : 'upload_failed')
+        }
+        next()
+    })
+}
+
+export function setupImportRoutes(app: Express) {
+    app.post('/api/drawings/import', requireAuth, receiveImportFile, validateBody(importDrawingSchema), async (req: Request<{}, {}, ImportDrawingRequestBody>, res: Response) => {
+        try {
+            const payload: JWTPayload = res.locals.auth
+
+            if (!req.file) {
+                return sendError(res, 'file_required')
+            }
+
+            const parsed = parseImportFile(req.file)
+            const { sessionId, name } = req.body
+
+            let session
+            if (sessionId) {
+                session = await prisma.drawingSession.findFirst({
+                    where: { id: sessionId, ownerId: payload.userId }
+                })
+                if (!session) {
+                    return sendError(res, 'drawing_not_found')
+                }
+            } else {
+                session = await prisma.drawingSession.create({
+                    data: {
+                        name: name?.trim() || parsed.name || path.parse(req.file.originalname).name || '导入的画板',
+                        ownerId: payload.userId
+                    }
+                })
+            }
+
+            // DrawingPath 只能保存笔迹，图片等没有坐标点的元素会被跳过
+            const paths = parsed.elements
+                .map(element => ({ element, points: normalizePoints(element.points) }))
+                .filter(({ points }) => points.length > 0)
+
+            await prisma.drawingPath.createMany({
+                data: paths.map(({ element, points }) => ({
+                    userId: payload.userId,
+                    sessionId: session.id,
+                    tool: String(element.tool || element.type || 'pencil'),
+                    points: JSON.stringify(points),
+                    color: typeof element.color === 'string' ? element.color : '#000000',
+                    lineWidth: Math.max(1, Math.round(Number(element.lineWidth) || 2))
+                }))
+            })
+
+            res.status(201).json({
+                success: true,
+                message: responseMessage(res, 'import_succeeded'),
+                session: {
+                    id: session.id,
+                    name: session.name
+                },
+                imported: paths.length,
+                skipped: parsed.elements.length - paths.length
+            })
+        } catch (error) {
+            if (error instanceof ImportValidationError) {
+                return sendError(res, 'invalid_import_file', undefined, { details: localizeIssues(res, error.issues) })
+            }
+            console.error('导入画板错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/rooms/import', requireAuth, receiveImportFile, validateBody(importRoomSchema), async (req: Request<{}, {}, ImportRoomRequestBody>, res: Response) => {
+        try {
+            const payload: JWTPayload = res.locals.auth
+
+            if (!req.file) {
+                return sendError(res, 'file_required')
+            }
+
+            const { roomId } = req.body
+
+            const room = await prisma.room.findUnique({
+                where: { roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            const parsed = parseImportFile(req.file)
+            const elements = materializeAssets(parsed, `${req.protocol}://${req.get('host')}`)
+
+            const document = await getRoomDocument(room.roomId)
+            // 导入只替换元素，保留房间快照中的其他字段
+            replaceDocument(document, elements as RoomElement[], parsed.layerOrder, document.extra)
+            await flushRoomDocument(room.roomId)
+            // 本实例上没有该房间的连接时不订阅房间频道，缓存的状态收不到后续改动
+            if (![...clients.values()].some(client => client.roomId === room.roomId)) {
+                dropRoomDocument(room.roomId)
+            }
+            sendRoomControl({ action: 'reload_document', roomId: room.roomId })
+
+            const state = serializeDocument(document)
+            const revision = await createRevision(room.id, {
+                data: state.data,
+                layerOrder: state.layerOrder ? JSON.stringify(state.layerOrder) : null,
+                authorId: payload.userId,
+                label: `导入: ${req.file.originalname}`.slice(0, 191)
+            })
+
+            broadcastToRoom(room.roomId, {
+                type: 'snapshot_imported',
+                data: state.data,
+                layerOrder: state.layerOrder,
+                revision: revision.version
+            })
+            console.log(`房主 ${payload.userId} 向房间 ${room.roomId} 导入了 ${elements.length} 个元素`)
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'import_succeeded'),
+                imported: elements.length,
+                revision: revision.version,
+                warnings: localizeIssues(res, parsed.warnings)
+            })
+        } catch (error) {
+            if (error instanceof ImportValidationError) {
+                return sendError(res, 'invalid_import_file', undefined, { details: localizeIssues(res, error.issues) })
+            }
+            console.error('导入房间错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
@@ -0,0 +1,108 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { buildBundle, renderSvg, ExportElement } from './export'
+import { parseImportFile, materializeAssets, ImportValidationError } from './importParser'
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+const SVG = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><rect width="1" height="1"/></svg>')
+
+function importFile(content: string, originalname: string, mimetype: string) {
+    return parseImportFile({ buffer: Buffer.from(content), originalname, mimetype } as Express.Multer.File)
+}
+
+function issueKeys(fn: () => unknown) {
+    try {
+        fn()
+    } catch (error) {
+        assert.ok(error instanceof ImportValidationError)
+        return error.issues.map(issue => issue.key)
+    }
+    assert.fail('应当抛出 ImportValidationError')
+}
+
+describe('导出文件再导入', () => {
+    const cwd = process.cwd()
+    let workDir: string
+
+    const elements: ExportElement[] = [
+        { id: 'stroke', tool: 'pencil', points: [[0, 0], [10, 10]], color: '#ff0000', lineWidth: 3 },
+        { id: 'photo', type: 'image', src: 'http://old.example/uploads/photo.png', x: 0, y: 0, width: 10, height: 10 },
+        { id: 'logo', type: 'image', src: 'http://old.example/uploads/logo.svg', x: 0, y: 0, width: 10, height: 10 },
+        { id: 'blob', type: 'image', src: 'http://old.example/uploads/blob.bin', x: 0, y: 0, width: 10, height: 10 }
+    ]
+
+    before(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-spec-'))
+        fs.mkdirSync(path.join(workDir, 'uploads'))
+        fs.writeFileSync(path.join(workDir, 'uploads', 'photo.png'), PNG)
+        fs.writeFileSync(path.join(workDir, 'uploads', 'logo.svg'), SVG)
+        fs.writeFileSync(path.join(workDir, 'uploads', 'blob.bin'), Buffer.from('binary'))
+        process.chdir(workDir)
+    })
+
+    after(() => {
+        process.chdir(cwd)
+        fs.rmSync(workDir, { recursive: true, force: true })
+    })
+
+    it('JSON 导出文件中的 SVG 附件可以导入，无法识别的附件跳过并提示', async () => {
+        const bundle = await buildBundle({ type: 'room', id: 'room-1', name: '测试房间' }, elements, ['stroke', 'photo'])
+        assert.deepEqual(bundle.assets.map(asset => asset.mimeType), ['image/png', 'image/svg+xml', 'application/octet-stream'])
+
+        const parsed = importFile(JSON.stringify(bundle), 'room.json', 'application/json')
+        assert.equal(parsed.name, '测试房间')
+        assert.deepEqual(parsed.layerOrder, ['stroke', 'photo'])
+        assert.deepEqual(parsed.elements, elements)
+        assert.deepEqual(parsed.assets.map(asset => asset.mimeType), ['image/png', 'image/svg+xml'])
+        assert.deepEqual(parsed.warnings, [
+            { key: 'import_asset_skipped', params: { field: 'assets[2]', mimeType: 'application/octet-stream' } }
+        ])
+
+        const imported = materializeAssets(parsed, 'http://new.example')
+        const [, photo, logo, blob] = imported
+        assert.match(String(photo.src), /^http:\/\/new\.example\/uploads\/.+\.png$/)
+        assert.match(String(logo.src), /^http:\/\/new\.example\/uploads\/.+\.svg$/)
+        // 跳过的附件仍指向原地址
+        assert.equal(blob.src, 'http://old.example/uploads/blob.bin')
+
+        const stored = path.join(workDir, 'uploads', path.basename(String(logo.src)))
+        assert.deepEqual(fs.readFileSync(stored), SVG)
+    })
+
+    it('SVG 导出文件可以还原笔迹', async () => {
+        const bundle = await buildBundle({ type: 'drawing', id: 'drawing-1', name: null }, [elements[0]], null)
+        const parsed = importFile(renderSvg(bundle.elements, null, bundle.assets), 'drawing.svg', 'image/svg+xml')
+
+        assert.equal(parsed.elements.length, 1)
+        assert.equal(parsed.elements[0].color, '#ff0000')
+        assert.equal(parsed.elements[0].lineWidth, 3)
+    })
+
+    it('没有 format 字段的旧数据按 v0 升级', () => {
+        const parsed = importFile(JSON.stringify([elements[0]]), 'legacy.json', 'application/json')
+
+        assert.equal(parsed.name, null)
+        assert.deepEqual(parsed.elements, [elements[0]])
+        assert.deepEqual(parsed.assets, [])
+    })
+
+    it('格式错误时返回可翻译的问题列表', () => {
+        assert.deepEqual(issueKeys(() => importFile('{', 'broken.json', 'application/json')), ['import_invalid_json'])
+        assert.deepEqual(issueKeys(() => importFile('42', 'number.json', 'application/json')), ['import_not_object'])
+        assert.deepEqual(
+            issueKeys(() => importFile(JSON.stringify({ format: 'infinitec-bundle', version: 99, elements: [] }), 'future.json', 'application/json')),
+            ['import_unsupported_version']
+        )
+        assert.deepEqual(
+            issueKeys(() => importFile(JSON.stringify({ format: 'other', version: 1, elements: [] }), 'other.json', 'application/json')),
+            ['import_invalid_field']
+        )
+        assert.deepEqual(
+            issueKeys(() => importFile(JSON.stringify([{ id: 'a' }, { id: 'a', points: [[0, 0]] }]), 'dup.json', 'application/json')),
+            ['import_invalid_points', 'import_element_duplicate_id']
+        )
+    })
+})
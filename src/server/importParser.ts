@@ -0,0 +1,413 @@
+import path from 'path'
+import fs from 'fs'
+import crypto from 'crypto'
+import { MessageKey, MessageParams } from '../utils/messages'
+import { object, string, number, oneOf, unknown, array, validate, ValidationIssue, Infer } from '../utils/validation'
+import { uniqueFilename } from '../utils/upload'
+import { MAX_IMPORT_ELEMENTS } from '../constants'
+import { BUNDLE_FORMAT, BUNDLE_VERSION, ExportElement, normalizePoints } from './export'
+
+// 导入文件的问题和提示，按请求的语言翻译后返回
+export interface ImportIssue {
+    key: MessageKey
+    params?: MessageParams
+}
+
+const assetSchema = object({
+    url: string(),
+    mimeType: string(),
+    data: string()
+})
+
+export type ImportAsset = Infer<typeof assetSchema>
+
+export interface ParsedImport {
+    name: string | null
+    layerOrder: unknown
+    elements: ExportElement[]
+    assets: ImportAsset[]
+    // 被跳过但不影响导入的内容
+    warnings: ImportIssue[]
+}
+
+export class ImportValidationError extends Error {
+    issues: ImportIssue[]
+
+    constructor(issues: ImportIssue[]) {
+        super('导入文件格式错误')
+        this.issues = issues
+    }
+}
+
+const MAX_REPORTED_ERRORS = 20
+
+// 可以导入的附件类型。SVG 由 /uploads 以禁止脚本的响应头提供，不会执行其中的脚本
+const ASSET_EXTENSIONS: Record<string, string> = {
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/gif': '.gif',
+    'image/webp': '.webp',
+    'image/svg+xml': '.svg'
+}
+
+const bundleHeaderSchema = object({
+    format: oneOf([BUNDLE_FORMAT]),
+    version: number({ integer: true, min: 0 })
+})
+
+// 升级到当前版本后的结构，elements 由 validateElements 逐个校验
+const bundleSchema = object({
+    source: object({
+        name: string({ min: 0 }).nullable().optional()
+    }).nullable().optional(),
+    layerOrder: unknown().nullable().optional(),
+    elements: unknown(),
+    assets: array(assetSchema, { min: 0 }).nullable().optional()
+})
+
+function fieldIssues(issues: ValidationIssue[]): ImportIssue[] {
+    return issues.slice(0, MAX_REPORTED_ERRORS).map(issue => ({
+        key: 'import_invalid_field',
+        params: { field: issue.field }
+    }))
+}
+
+function readField(value: unknown, key: string): unknown {
+    return value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+}
+
+// 旧版本导出文件逐级升级到下一个版本，key 为升级前的版本号
+const BUNDLE_MIGRATIONS: Record<number, (bundle: unknown) => unknown> = {
+    // v0：没有 format 字段的旧数据，即直接保存的 RoomSnapshot.data（元素数组）或 { elements, layerOrder }
+    0: bundle => ({
+        format: BUNDLE_FORMAT,
+        version: 1,
+        exportedAt: null,
+        source: null,
+        layerOrder: Array.isArray(bundle) ? null : readField(bundle, 'layerOrder') ?? null,
+        elements: Array.isArray(bundle) ? bundle : readField(bundle, 'elements'),
+        assets: []
+    })
+}
+
+function migrateBundle(raw: unknown): unknown {
+    if (raw === null || typeof raw !== 'object') {
+        throw new ImportValidationError([{ key: 'import_not_object' }])
+    }
+
+    let version = 0
+    if (!Array.isArray(raw) && readField(raw, 'format') !== undefined) {
+        const header = validate(bundleHeaderSchema, raw)
+        if (!header.ok) {
+            throw new ImportValidationError(fieldIssues(header.issues))
+        }
+        version = header.value.version
+    }
+    if (version > BUNDLE_VERSION) {
+        throw new ImportValidationError([{ key: 'import_unsupported_version', params: { version, max: BUNDLE_VERSION } }])
+    }
+
+    let bundle: unknown = raw
+    for (; version < BUNDLE_VERSION; version++) {
+        bundle = BUNDLE_MIGRATIONS[version](bundle)
+    }
+    return bundle
+}
+
+function imageUrlField(element: ExportElement): string | null {
+    for (const field of ['src', 'url', 'href']) {
+        if (typeof element[field] === 'string') {
+            return field
+        }
+    }
+    return null
+}
+
+function validateElements(value: unknown): ExportElement[] {
+    if (!Array.isArray(value)) {
+        throw new ImportValidationError([{ key: 'import_invalid_field', params: { field: 'elements' } }])
+    }
+    if (value.length > MAX_IMPORT_ELEMENTS) {
+        throw new ImportValidationError([{ key: 'import_too_many_elements', params: { max: MAX_IMPORT_ELEMENTS } }])
+    }
+
+    const errors: ImportIssue[] = []
+    const seen = new Set<string>()
+    const elements: ExportElement[] = []
+
+    value.forEach((item: unknown, index) => {
+        const field = `elements[${index}]`
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+            errors.push({ key: 'import_element_not_object', params: { field } })
+            return
+        }
+
+        const element = { ...item } as ExportElement
+        if (element.id === undefined) {
+            element.id = crypto.randomUUID()
+        } else if (typeof element.id !== 'string' || !element.id) {
+            errors.push({ key: 'import_element_invalid_id', params: { field } })
+            return
+        }
+        if (seen.has(element.id)) {
+            errors.push({ key: 'import_element_duplicate_id', params: { field, id: element.id } })
+            return
+        }
+        seen.add(element.id)
+
+        const isImage = (element.type || element.tool) === 'image'
+        if (isImage && !imageUrlField(element)) {
+            errors.push({ key: 'import_image_missing_src', params: { field } })
+        }
+        if (!isImage && normalizePoints(element.points).length === 0) {
+            errors.push({ key: 'import_invalid_points', params: { field } })
+        }
+        if (element.color !== undefined && typeof element.color !== 'string') {
+            errors.push({ key: 'import_invalid_color', params: { field } })
+        }
+        if (element.lineWidth !== undefined && !(Number(element.lineWidth) > 0)) {
+            errors.push({ key: 'import_invalid_line_width', params: { field } })
+        }
+
+        elements.push(element)
+    })
+
+    if (errors.length > 0) {
+        throw new ImportValidationError(errors.slice(0, MAX_REPORTED_ERRORS))
+    }
+    return elements
+}
+
+// 导出时无法识别类型的附件（例如 application/octet-stream）跳过并提示，元素仍指向原地址
+function partitionAssets(value: ImportAsset[]) {
+    const assets: ImportAsset[] = []
+    const warnings: ImportIssue[] = []
+    value.forEach((asset, index) => {
+        if (ASSET_EXTENSIONS[asset.mimeType]) {
+            assets.push(asset)
+        } else {
+            warnings.push({ key: 'import_asset_skipped', params: { field: `assets[${index}]`, mimeType: asset.mimeType } })
+        }
+    })
+    return { assets, warnings }
+}
+
+function parseBundle(text: string): ParsedImport {
+    let raw: unknown
+    try {
+        raw = JSON.parse(text)
+    } catch (e) {
+        throw new ImportValidationError([{ key: 'import_invalid_json' }])
+    }
+
+    const result = validate(bundleSchema, migrateBundle(raw))
+    if (!result.ok) {
+        throw new ImportValidationError(fieldIssues(result.issues))
+    }
+
+    const bundle = result.value
+    const elements = validateElements(bundle.elements)
+    const { assets, warnings } = partitionAssets(bundle.assets ?? [])
+    return {
+        name: bundle.source?.name ?? null,
+        layerOrder: bundle.layerOrder ?? null,
+        elements,
+        assets,
+        warnings
+    }
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {}
+    const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(source))) {
+        attributes[match[1]] = match[2] ?? match[3]
+    }
+
+    // style 中的属性优先级高于同名属性
+    for (const declaration of (attributes.style || '').split(';')) {
+        const [key, value] = declaration.split(':').map(part => part && part.trim())
+        if (key && value) {
+            attributes[key] = value
+        }
+    }
+    return attributes
+}
+
+const PATH_PARAM_COUNTS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 }
+
+// 曲线只保留端点，足以还原手绘笔迹的大致形状
+function parsePathData(d: string): [number, number][] {
+    const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) || []
+    const points: [number, number][] = []
+    let x = 0
+    let y = 0
+    let startX = 0
+    let startY = 0
+    let index = 0
+    let command = ''
+
+    while (index < tokens.length) {
+        if (/[a-zA-Z]/.test(tokens[index])) {
+            command = tokens[index++]
+        }
+        const lower = command.toLowerCase()
+        const count = PATH_PARAM_COUNTS[lower]
+        if (count === undefined) {
+            break
+        }
+        if (lower === 'z') {
+            x = startX
+            y = startY
+            points.push([x, y])
+            command = ''
+            continue
+        }
+
+        const params = tokens.slice(index, index + count).map(Number)
+        if (params.length < count || params.some(Number.isNaN)) {
+            break
+        }
+        index += count
+
+        const relative = command !== command.toUpperCase()
+        if (lower === 'h') {
+            x = relative ? x + params[0] : params[0]
+        } else if (lower === 'v') {
+            y = relative ? y + params[0] : params[0]
+        } else {
+            const [endX, endY] = params.slice(-2)
+            x = relative ? x + endX : endX
+            y = relative ? y + endY : endY
+        }
+
+        if (lower === 'm') {
+            startX = x
+            startY = y
+            // M 之后的隐式坐标按 L 处理
+            command = relative ? 'l' : 'L'
+        }
+        points.push([x, y])
+    }
+
+    return points
+}
+
+
+
+// 基于正则解析常见的 SVG 图形，忽略 transform 和分组嵌套
+function parseSvg(text: string): ParsedImport {
+    if (!/<svg[\s>]/i.test(text)) {
+        throw new ImportValidationError([{ key: 'import_invalid_svg' }])
+    }
+
+    const elements: ExportElement[] = []
+    const pattern = /<(path|polyline|polygon|line|rect|circle|ellipse|image)\b([^>]*)>/gi
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(text))) {
+        const tag = match[1].toLowerCase()
+        const attrs = parseAttributes(match[2])
+        const num = (name: string) => Number(attrs[name]) || 0
+        const base = {
+            id: crypto.randomUUID(),
+            color: attrs.stroke,
+            lineWidth: Number(attrs['stroke-width']) || 2
+        }
+
+        if (tag === 'image') {
+            const href = attrs.href || attrs['xlink:href']
+            if (href) {
+                elements.push({ id: base.id, type: 'image', src: href, x: num('x'), y: num('y'), width: num('width'), height: num('height') })
+            }
+            continue
+        }
+
+        // 没有描边的图形（例如导出时的背景）不是笔迹
+        if (!attrs.stroke || attrs.stroke === 'none') {
+            continue
+        }
+
+        let tool = 'pencil'
+        let points: [number, number][] = []
+
+        switch (tag) {
+            case 'path':
+                points = parsePathData(attrs.d || '')
+                break
+            case 'polyline':
+            case 'polygon':
+                points = normalizePoints((attrs.points || '').trim().split(/[\s,]+/).map(Number))
+                if (tag === 'polygon' && points.length > 0) {
+                    points.push(points[0])
+                }
+                break
+            case 'line':
+                tool = 'line'
+                points = [[num('x1'), num('y1')], [num('x2'), num('y2')]]
+                break
+            case 'rect':
+                tool = 'rect'
+                points = [[num('x'), num('y')], [num('x') + num('width'), num('y') + num('height')]]
+                break
+            case 'circle':
+            case 'ellipse': {
+                tool = 'ellipse'
+                const rx = tag === 'circle' ? num('r') : num('rx')
+                const ry = tag === 'circle' ? num('r') : num('ry')
+                points = [[num('cx') - rx, num('cy') - ry], [num('cx') + rx, num('cy') + ry]]
+                break
+            }
+        }
+
+        if (points.length > 0) {
+            elements.push({ ...base, tool, points })
+        }
+    }
+
+    if (elements.length > MAX_IMPORT_ELEMENTS) {
+        throw new ImportValidationError([{ key: 'import_too_many_elements', params: { max: MAX_IMPORT_ELEMENTS } }])
+    }
+
+    return { name: null, layerOrder: null, elements, assets: [], warnings: [] }
+}
+
+export function parseImportFile(file: Express.Multer.File): ParsedImport {
+    const text = file.buffer.toString('utf8').replace(/^\uFEFF/, '')
+    const isSvg = file.mimetype === 'image/svg+xml'
+        || path.extname(file.originalname).toLowerCase() === '.svg'
+        || text.trimStart().startsWith('<')
+
+    return isSvg ? parseSvg(text) : parseBundle(text)
+}
+
+// 把内嵌的图片写入 uploads 目录，并把元素中的引用改成新地址
+export function materializeAssets(parsed: ParsedImport, baseUrl: string): ExportElement[] {
+    const uploadDir = path.join(process.cwd(), 'uploads')
+    const urlMap = new Map<string, string>()
+
+    const store = (mimeType: string, data: string) => {
+        const filename = uniqueFilename(`asset${ASSET_EXTENSIONS[mimeType]}`)
+        fs.writeFileSync(path.join(uploadDir, filename), Buffer.from(data, 'base64'))
+        return `${baseUrl}/uploads/${filename}`
+    }
+
+    for (const asset of parsed.assets) {
+        urlMap.set(asset.url, store(asset.mimeType, asset.data))
+    }
+
+    return parsed.elements.map(element => {
+        const field = imageUrlField(element)
+        if (!field) {
+            return element
+        }
+
+        const url = element[field] as string
+        const dataUri = url.match(/^data:(image\/[\w+.-]+);base64,(.+)$/)
+        if (dataUri && ASSET_EXTENSIONS[dataUri[1]]) {
+            return { ...element, [field]: store(dataUri[1], dataUri[2]) }
+        }
+        return urlMap.has(url) ? { ...element, [field]: urlMap.get(url) } : element
+    })
+}
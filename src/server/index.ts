@@ -1,108 +1,321 @@
 import prisma from '../lib/prisma'
 import { Request, Response, Express } from 'express'
-import { generateToken, verifyToken } from '../utils/jwt'
-import { clients } from '../index'
-import multer from 'multer'
-import path from 'path'
-import nodemailer from 'nodemailer'
+import { verifyToken, JWTPayload } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { responseMessage } from '../utils/messages'
+import { hashPassword, verifyPassword, verifyDummyPassword } from '../utils/password'
+import { broadcastToRoom } from '../index'
+import {
+    MAX_ROOM_USERS,
+    MAX_ROOM_NAME_LENGTH,
+    RATE_LIMITS,
+    APP_URL,
+    PASSWORD_RESET_EXPIRES_IN,
+    EMAIL_VERIFICATION_EXPIRES_IN,
+    EMAIL_VERIFIED_REDIRECT_URL,
+    EMAIL_VERIFY_FAILED_REDIRECT_URL
+} from '../constants'
+import { setupDrawingRoutes } from './drawings'
+import { setupRevisionRoutes } from './revisions'
+import { dropRoomDocument, flushRoomDocument } from './roomState'
+import { migrateOwnership, transferOwnership } from './ownership'
+import { scheduleDeparture } from './presence'
+import { changeMemberRole, ASSIGNABLE_ROLES } from './permissions'
+import { setupModerationRoutes } from './moderation'
+import { setupExportRoutes } from './export'
+import { setupImportRoutes } from './import'
+import { setupInviteRoutes } from './invites'
+import { setupDiscoveryRoutes } from './discovery'
+import { setupRoomMetricsRoutes } from './roomMetrics'
+import { setupSessionRoutes, sessionGuard, createSession, issueAccessToken, isSessionActive, revokeSessions } from './sessions'
+import { upload } from '../utils/upload'
+import {
+    rateLimit,
+    rateLimitConfig,
+    normalizeAccountKey,
+    getLoginLockout,
+    recordLoginFailure,
+    clearLoginFailures
+} from '../utils/rateLimit'
+import { sendMail } from '../mail'
+import { resolveLocale, Locale } from '../utils/locale'
+import { object, string, number, boolean, email, oneOf, validateBody, Infer } from '../utils/validation'
 import crypto from 'crypto'
 
-// Multer configuration
-const storage = multer.diskStorage({
-    destination: function (req, file, cb) {
-        cb(null, 'uploads/')
-    },
-    filename: function (req, file, cb) {
-        const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9)
-        cb(null, uniqueSuffix + path.extname(file.originalname))
-    }
+const passwordSchema = string({ max: 128 })
+
+const registerSchema = object({
+    name: string({ trim: true, max: 191 }),
+    phone: string({ trim: true, max: 32 }),
+    email: email(),
+    password: passwordSchema
 })
-const upload = multer({ storage: storage })
-
-// Email configuration
-const transporter = nodemailer.createTransport({
-    host: process.env.EMAIL_HOST,
-    port: Number(process.env.EMAIL_PORT),
-    secure: true,
-    auth: {
-        user: process.env.EMAIL,
-        pass: process.env.EMAIL_SMTP
-    }
-});
 
-interface RegisterRequestBody {
-    name: string
-    phone?: string
-    email: string
-    password: string
-}
+type RegisterRequestBody = Infer<typeof registerSchema>
 
-interface CheckPhoneRequestBody {
-    phone: string
-}
+const checkPhoneSchema = object({
+    phone: string({ trim: true, max: 32 })
+})
+
+type CheckPhoneRequestBody = Infer<typeof checkPhoneSchema>
+
+// 登录时不校验邮箱格式，格式错误与账号不存在返回相同的结果
+const loginSchema = object({
+    email: string({ max: 191 }),
+    password: passwordSchema
+})
+
+type LoginRequestBody = Infer<typeof loginSchema>
+
+const createRoomSchema = object({
+    password: string({ min: 0, max: 64 }).optional(),
+    maxUsers: number({ integer: true, min: 1, max: MAX_ROOM_USERS }).optional(),
+    persistent: boolean().optional(),
+    isPublic: boolean().optional()
+})
+
+type CreateRoomRequestBody = Infer<typeof createRoomSchema>
+
+const roomIdSchema = object({
+    roomId: string({ max: 191 })
+})
+
+type LeaveRoomRequestBody = Infer<typeof roomIdSchema>
 
-interface LoginRequestBody {
-    email: string
-    password: string
+const joinRoomSchema = object({
+    roomId: string({ max: 191 }),
+    password: string({ min: 0, max: 64 }).optional()
+})
+
+type JoinRoomRequestBody = Infer<typeof joinRoomSchema>
+
+type DeleteRoomRequestBody = Infer<typeof roomIdSchema>
+
+type UnarchiveRoomRequestBody = Infer<typeof roomIdSchema>
+
+const transferOwnershipSchema = object({
+    roomId: string({ max: 191 }),
+    userId: string({ max: 191 })
+})
+
+type TransferOwnershipRequestBody = Infer<typeof transferOwnershipSchema>
+
+// PATCH 只修改出现的字段，name 和 password 传 null 或空字符串表示清空
+const updateRoomSettingsSchema = object({
+    name: string({ min: 0, trim: true, max: MAX_ROOM_NAME_LENGTH }).nullable().optional(),
+    password: string({ min: 0, max: 64 }).nullable().optional(),
+    maxUsers: number({ integer: true, min: 1, max: MAX_ROOM_USERS }).optional(),
+    status: oneOf(['active', 'archived']).optional(),
+    isPublic: boolean().optional(),
+    persistent: boolean().optional()
+})
+
+type UpdateRoomSettingsRequestBody = Infer<typeof updateRoomSettingsSchema>
+
+const changeMemberRoleSchema = object({
+    roomId: string({ max: 191 }),
+    userId: string({ max: 191 }),
+    role: oneOf(ASSIGNABLE_ROLES)
+})
+
+type ChangeMemberRoleRequestBody = Infer<typeof changeMemberRoleSchema>
+
+const setSuccessorSchema = object({
+    roomId: string({ max: 191 }),
+    userId: string({ min: 0, max: 191 }).nullable().optional()
+})
+
+type SetSuccessorRequestBody = Infer<typeof setSuccessorSchema>
+
+const emailOnlySchema = object({
+    email: email()
+})
+
+type ResetPasswordRequestBody = Infer<typeof emailOnlySchema>
+
+type ResendVerificationRequestBody = Infer<typeof emailOnlySchema>
+
+const changeEmailSchema = object({
+    email: email(),
+    password: passwordSchema
+})
+
+type ChangeEmailRequestBody = Infer<typeof changeEmailSchema>
+
+const confirmResetPasswordSchema = object({
+    token: string({ max: 256 }),
+    password: passwordSchema
+})
+
+type ConfirmResetPasswordRequestBody = Infer<typeof confirmResetPasswordSchema>
+
+const feedbackSchema = object({
+    content: string({ trim: true, max: 1000 })
+})
+
+type FeedbackRequestBody = Infer<typeof feedbackSchema>
+
+const changePasswordSchema = object({
+    password: passwordSchema
+})
+
+type ChangePasswordRequestBody = Infer<typeof changePasswordSchema>
+
+const updateUserSchema = object({
+    name: string({ trim: true, max: 191 }),
+    phone: string({ min: 0, trim: true, max: 32 }).optional()
+})
+
+type UpdateUserRequestBody = Infer<typeof updateUserSchema>
+
+const verifyTokenSchema = object({
+    token: string({ max: 2048 })
+})
+
+type VerifyTokenRequestBody = Infer<typeof verifyTokenSchema>
+
+function createVerificationToken() {
+    return {
+        verificationToken: crypto.randomBytes(32).toString('hex'),
+        verificationExpiresAt: new Date(Date.now() + EMAIL_VERIFICATION_EXPIRES_IN * 1000)
+    }
 }
 
-interface CreateRoomRequestBody {
-    password?: string
-    maxUsers?: number
+async function sendVerificationEmail(req: Request, email: string, verificationToken: string) {
+    const backendUrl = `${req.protocol}://${req.get('host')}/api/verify-email-link?token=${verificationToken}`
+
+    await sendMail(email, 'verification', {
+        url: backendUrl,
+        expiresInHours: EMAIL_VERIFICATION_EXPIRES_IN / 3600
+    }, resolveLocale(req.get('accept-language')))
+    console.log(`Verification email sent to ${email}`)
 }
 
-interface LeaveRoomRequestBody {
-    roomId: string
+function verifyFailedRedirect(reason: string): string {
+    const url = new URL(EMAIL_VERIFY_FAILED_REDIRECT_URL)
+    url.searchParams.set('reason', reason)
+    return url.toString()
 }
 
-interface JoinRoomRequestBody {
-    roomId: string
-    password?: string
+function hashResetToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
 }
 
-interface DeleteRoomRequestBody {
-    roomId: string
+// 邮箱未注册时什么也不做；在响应之后执行，调用方拿不到结果也看不出耗时差异
+async function sendPasswordResetLink(email: string, locale: Locale) {
+    const user = await prisma.user.findUnique({
+        where: { email }
+    })
+    if (!user) {
+        return
+    }
+
+    const resetToken = crypto.randomBytes(32).toString('hex')
+
+    // 新链接生效后，之前未使用的链接全部作废
+    await prisma.$transaction([
+        prisma.passwordResetToken.updateMany({
+            where: { userId: user.id, usedAt: null },
+            data: { usedAt: new Date() }
+        }),
+        prisma.passwordResetToken.create({
+            data: {
+                userId: user.id,
+                tokenHash: hashResetToken(resetToken),
+                expiresAt: new Date(Date.now() + PASSWORD_RESET_EXPIRES_IN * 1000)
+            }
+        })
+    ])
+
+    await sendMail(email, 'password_reset', {
+        url: `${APP_URL}/reset-password?token=${resetToken}`,
+        expiresInMinutes: PASSWORD_RESET_EXPIRES_IN / 60
+    }, locale)
 }
 
-interface ResetPasswordRequestBody {
-    email: string
-    phone: string
+function sendLoginLocked(res: Response, retryAfter: number) {
+    res.setHeader('Retry-After', String(retryAfter))
+    return sendError(res, 'login_locked', { retryAfter }, { retryAfter })
 }
 
-interface FeedbackRequestBody {
-    content: string
+// 账号不存在和密码错误走同一分支，都计入失败次数
+async function rejectLogin(res: Response, account: string) {
+    const lockout = await recordLoginFailure(account)
+    if (lockout > 0) {
+        return sendLoginLocked(res, lockout)
+    }
+    return sendError(res, 'invalid_credentials')
 }
 
+const loginRateLimit = rateLimit({
+    name: 'login',
+    ...rateLimitConfig('login', RATE_LIMITS.login),
+    accountKey: req => normalizeAccountKey(req.body?.email)
+})
+
+const registerRateLimit = rateLimit({
+    name: 'register',
+    ...rateLimitConfig('register', RATE_LIMITS.register),
+    accountKey: req => normalizeAccountKey(req.body?.email)
+})
+
+const resetPasswordRateLimit = rateLimit({
+    name: 'reset_password',
+    ...rateLimitConfig('reset_password', RATE_LIMITS.reset_password),
+    accountKey: req => normalizeAccountKey(req.body?.email)
+})
+
+const resendVerificationRateLimit = rateLimit({
+    name: 'resend_verification',
+    ...rateLimitConfig('resend_verification', RATE_LIMITS.resend_verification),
+    accountKey: req => normalizeAccountKey(req.body?.email)
+})
+
+const changeEmailRateLimit = rateLimit({
+    name: 'change_email',
+    ...rateLimitConfig('change_email', RATE_LIMITS.change_email)
+})
+
+const checkPhoneRateLimit = rateLimit({
+    name: 'check_phone',
+    ...rateLimitConfig('check_phone', RATE_LIMITS.check_phone)
+})
+
 export function setupRoutes(app: Express) {
-    app.post('/api/feedback', async (req: Request<{}, {}, FeedbackRequestBody>, res: Response) => {
+    app.use('/api', sessionGuard)
+
+    setupDrawingRoutes(app)
+    setupRevisionRoutes(app)
+    setupModerationRoutes(app)
+    setupExportRoutes(app)
+    setupImportRoutes(app)
+    setupInviteRoutes(app)
+    setupDiscoveryRoutes(app)
+    setupSessionRoutes(app)
+    setupRoomMetricsRoutes(app)
+
+    app.post('/api/feedback', validateBody(feedbackSchema), async (req: Request<{}, {}, FeedbackRequestBody>, res: Response) => {
         try {
             const authHeader = req.headers.authorization
             if (!authHeader) {
-                return res.status(401).json({ error: '未授权' })
+                return sendError(res, 'unauthorized')
             }
 
             const token = authHeader.split(' ')[1]
             const decoded = verifyToken(token) as { userId: string } | null
 
             if (!decoded || !decoded.userId) {
-                return res.status(401).json({ error: '无效的令牌' })
+                return sendError(res, 'invalid_token')
             }
 
             const { content } = req.body
-            if (!content || !content.trim()) {
-                return res.status(400).json({ error: '反馈内容不能为空' })
-            }
-
-            if (content.length > 1000) {
-                 return res.status(400).json({ error: '反馈内容不能超过1000字' })
-            }
 
             const user = await prisma.user.findUnique({
                 where: { id: decoded.userId }
             })
 
             if (!user) {
-                return res.status(404).json({ error: '用户不存在' })
+                return sendError(res, 'user_not_found')
             }
 
             await prisma.feedback.create({
@@ -114,76 +327,77 @@ export function setupRoutes(app: Express) {
                 }
             })
 
-            res.json({ success: true, message: '提交成功' })
+            res.json({ success: true, message: responseMessage(res, 'feedback_submitted') })
 
         } catch (error) {
             console.error('Feedback error:', error)
-            res.status(500).json({ error: '提交失败，请稍后重试' })
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/reset-password', async (req: Request<{}, {}, ResetPasswordRequestBody>, res: Response) => {
+    // 第一步：向邮箱发送一次性的重置链接，不修改当前密码
+    app.post('/api/reset-password', resetPasswordRateLimit, validateBody(emailOnlySchema), async (req: Request<{}, {}, ResetPasswordRequestBody>, res: Response) => {
         try {
-            const { email, phone } = req.body
+            const { email } = req.body
 
-            if (!email || !phone) {
-                return res.status(400).json({ error: '请填写邮箱和手机号' })
-            }
-
-            const user = await prisma.user.findFirst({
-                where: {
-                    email,
-                    phone
-                }
+            // 无论邮箱是否注册、发信是否成功都立即返回相同的结果，不暴露账号是否存在
+            sendPasswordResetLink(email, resolveLocale(req.get('accept-language'))).catch(error => {
+                console.error('发送重置密码邮件失败:', error)
             })
 
-            if (!user) {
-                return res.status(404).json({ error: '未找到匹配的用户信息' })
-            }
+            res.json({ success: true, message: responseMessage(res, 'reset_link_sent') })
+        } catch (error) {
+            console.error('重置密码错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
 
-            // Generate 8-char random password
-            const newPassword = crypto.randomBytes(4).toString('hex')
-            
-            // Hash password with salt before saving
-            const hashedPassword = crypto.createHash('sha256').update(newPassword + process.env.PASSWORD_SALT).digest('hex')
+    // 第二步：凭邮件中的链接设置新密码，成功后所有设备需要重新登录
+    app.post('/api/reset-password/confirm', resetPasswordRateLimit, validateBody(confirmResetPasswordSchema), async (req: Request<{}, {}, ConfirmResetPasswordRequestBody>, res: Response) => {
+        try {
+            const { token, password } = req.body
 
-            await prisma.user.update({
-                where: { id: user.id },
-                data: { password: hashedPassword }
+            const resetToken = await prisma.passwordResetToken.findUnique({
+                where: { tokenHash: hashResetToken(token) },
+                include: { user: true }
             })
 
-            const mailOptions = {
-                from: process.env.EMAIL,
-                to: email,
-                subject: 'Infinitec 密码重置',
-                html: `
-                    <div style="font-family: Arial, sans-serif; padding: 20px;">
-                        <h2 style="color: #333;">Infinitec 密码重置</h2>
-                        <p>您的密码已重置成功。</p>
-                        <p>新的密码为：<strong style="font-size: 18px; color: #1890ff;">${newPassword}</strong></p>
-                        <p>请使用新密码登录，登录后建议立即修改密码。</p>
-                    </div>
-                `
+            if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+                return sendError(res, 'invalid_reset_token')
             }
 
-            try {
-                await transporter.sendMail(mailOptions)
-                res.json({ success: true, message: '新密码已发送至您的邮箱' })
-            } catch (emailError) {
-                console.error('Email send error:', emailError)
-                res.status(500).json({ error: '发送邮件失败，请稍后重试' })
+            // 先占用令牌，保证并发请求时只有一次能成功
+            const claimed = await prisma.passwordResetToken.updateMany({
+                where: { id: resetToken.id, usedAt: null },
+                data: { usedAt: new Date() }
+            })
+
+            if (claimed.count === 0) {
+                return sendError(res, 'invalid_reset_token')
             }
 
+            await prisma.user.update({
+                where: { id: resetToken.userId },
+                data: { password: await hashPassword(password) }
+            })
+
+            await revokeSessions({ userId: resetToken.userId })
+            await clearLoginFailures(normalizeAccountKey(resetToken.user.email) || resetToken.user.email)
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'password_reset')
+            })
         } catch (error) {
-            console.error('重置密码错误:', error)
-            res.status(500).json({ error: '重置密码失败，请稍后重试' })
+            console.error('确认重置密码错误:', error)
+            sendError(res, 'internal_error')
         }
     })
 
     app.post('/api/upload', upload.single('image'), (req: any, res: Response) => {
         try {
             if (!req.file) {
-                return res.status(400).json({ error: 'No file uploaded' })
+                return sendError(res, 'file_required')
             }
             const protocol = req.protocol
             const host = req.get('host')
@@ -191,27 +405,14 @@ export function setupRoutes(app: Express) {
             res.json({ url })
         } catch (error) {
             console.error('Upload error:', error)
-            res.status(500).json({ error: 'Upload failed' })
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/register', async (req: Request<{}, {}, RegisterRequestBody>, res: Response) => {
+    app.post('/api/register', registerRateLimit, validateBody(registerSchema), async (req: Request<{}, {}, RegisterRequestBody>, res: Response) => {
         try {
             const { name, phone, email, password } = req.body
 
-            if (!name ) {
-                return res.status(400).json({ error: '用户名不能为空' })
-            }
-            if (!email ) {
-                return res.status(400).json({ error: '邮箱不能为空' })
-            }
-            if (!password) {
-                return res.status(400).json({ error: '密码不能为空' })
-            }
-            if (!phone) {
-                return res.status(400).json({ error: '手机号不能为空' })
-            }
-
             const existingUser = await prisma.user.findFirst({
                 where: {
                     OR: [
@@ -221,61 +422,55 @@ export function setupRoutes(app: Express) {
                 }
             })
 
+            // 邮箱或手机号已被占用时不直接报错，而是给填写的邮箱发送提醒，响应与注册成功一致
             if (existingUser) {
-                if (existingUser.email === email) {
-                    return res.status(400).json({ error: '该邮箱已被注册' })
-                }
-                if (existingUser.phone === phone) {
-                    return res.status(400).json({ error: '该手机号已被注册' })
+                try {
+                    await sendMail(email, 'register_notice', {
+                        reason: existingUser.email === email ? 'email_registered' : 'phone_taken'
+                    }, resolveLocale(req.get('accept-language')))
+                } catch (emailError) {
+                    console.error('Email send error:', emailError)
                 }
+
+                return res.status(201).json({
+                    success: true,
+                    message: responseMessage(res, 'registered'),
+                })
             }
 
-            const verificationToken = crypto.randomBytes(32).toString('hex')
+            const { verificationToken, verificationExpiresAt } = createVerificationToken()
 
-            const user = await prisma.user.create({
+            await prisma.user.create({
                 data: {
                     name,
                     phone,
                     email,
-                    password,
+                    password: await hashPassword(password),
                     isVerified: false,
-                    verificationToken
+                    verificationToken,
+                    verificationExpiresAt
                 }
             })
 
-            const backendUrl = `${req.protocol}://${req.get('host')}/api/verify-email-link?token=${verificationToken}`
-
-            const mailOptions = {
-                from: process.env.EMAIL,
-                to: email,
-                subject: 'Infinitec 邮箱验证',
-                html: `
-                    <div style="font-family: Arial, sans-serif; padding: 20px;">
-                        <h2 style="color: #333;"> Infinitec</h2>
-                        <p>请点击下面的按钮验证您的邮箱地址：</p>
-                        <a href="${backendUrl}" style="display: inline-block; padding: 10px 20px; background-color: #1890ff; color: white; text-decoration: none; border-radius: 4px;">验证邮箱</a>
-                        <p style="margin-top: 20px; font-size: 12px; color: #666;">如果按钮无法点击，请复制以下链接到浏览器打开：</p>
-                        <p style="font-size: 12px; color: #666;">${backendUrl}</p>
-                    </div>
-                `
-            }
-
+            // 邮件发送失败时保留账号，用户可以稍后重新发送验证邮件
             try {
-                await transporter.sendMail(mailOptions)
-                console.log(`Verification email sent to ${email}`)
+                await sendVerificationEmail(req, email, verificationToken)
             } catch (emailError) {
                 console.error('Email send error:', emailError)
-                await prisma.user.delete({ where: { id: user.id } })
-                return res.status(500).json({ error: '发送验证邮件失败，请检查邮箱地址是否正确' })
+                return res.status(201).json({
+                    success: true,
+                    message: responseMessage(res, 'registered_mail_failed'),
+                    emailSent: false
+                })
             }
 
             res.status(201).json({
                 success: true,
-                message: '注册成功，请前往邮箱验证',
+                message: responseMessage(res, 'registered'),
             })
         } catch (error) {
             console.error('注册错误:', error)
-            res.status(500).json({ error: '注册失败，请稍后重试' })
+            sendError(res, 'internal_error')
         }
     })
 
@@ -284,7 +479,7 @@ export function setupRoutes(app: Express) {
             const { token } = req.query
             
             if (!token || typeof token !== 'string') {
-                return res.status(400).send('无效的验证链接')
+                return res.redirect(verifyFailedRedirect('invalid'))
             }
 
             const user = await prisma.user.findUnique({
@@ -292,29 +487,181 @@ export function setupRoutes(app: Express) {
             })
 
             if (!user) {
-                return res.status(400).send('验证链接无效或已过期')
+                return res.redirect(verifyFailedRedirect('invalid'))
+            }
+
+            if (!user.verificationExpiresAt || user.verificationExpiresAt <= new Date()) {
+                return res.redirect(verifyFailedRedirect('expired'))
+            }
+
+            // 修改邮箱的验证：确认新邮箱后才替换原邮箱
+            if (user.pendingEmail) {
+                const taken = await prisma.user.findUnique({
+                    where: { email: user.pendingEmail }
+                })
+
+                if (taken) {
+                    await prisma.user.update({
+                        where: { id: user.id },
+                        data: {
+                            pendingEmail: null,
+                            verificationToken: null,
+                            verificationExpiresAt: null
+                        }
+                    })
+                    return res.redirect(verifyFailedRedirect('email_taken'))
+                }
+
+                await prisma.user.update({
+                    where: { id: user.id },
+                    data: {
+                        email: user.pendingEmail,
+                        pendingEmail: null,
+                        isVerified: true,
+                        verificationToken: null,
+                        verificationExpiresAt: null
+                    }
+                })
+                return res.redirect(EMAIL_VERIFIED_REDIRECT_URL)
             }
 
             await prisma.user.update({
                 where: { id: user.id },
                 data: {
                     isVerified: true,
-                    verificationToken: null
+                    verificationToken: null,
+                    verificationExpiresAt: null
                 }
             })
 
-            res.redirect('http://localhost:5173/?verified=true')
+            res.redirect(EMAIL_VERIFIED_REDIRECT_URL)
         } catch (error) {
             console.error('验证错误:', error)
-            res.status(500).send('验证失败')
+            res.redirect(verifyFailedRedirect('error'))
+        }
+    })
+
+    app.post('/api/resend-verification', resendVerificationRateLimit, validateBody(emailOnlySchema), async (req: Request<{}, {}, ResendVerificationRequestBody>, res: Response) => {
+        try {
+            const { email } = req.body
+
+            const user = await prisma.user.findUnique({
+                where: { email }
+            })
+
+            // 账号不存在或已验证时同样返回成功，不暴露账号状态
+            if (user && !user.isVerified) {
+                const { verificationToken, verificationExpiresAt } = createVerificationToken()
+
+                await prisma.user.update({
+                    where: { id: user.id },
+                    data: { verificationToken, verificationExpiresAt }
+                })
+
+                try {
+                    await sendVerificationEmail(req, email, verificationToken)
+                } catch (emailError) {
+                    console.error('Email send error:', emailError)
+                    return sendError(res, 'mail_send_failed')
+                }
+            }
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'verification_sent')
+            })
+        } catch (error) {
+            console.error('重新发送验证邮件错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/user/change-email', changeEmailRateLimit, validateBody(changeEmailSchema), async (req: Request<{}, {}, ChangeEmailRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { email, password } = req.body
+
+            const user = await prisma.user.findUnique({
+                where: { id: payload.userId }
+            })
+
+            if (!user) {
+                return sendError(res, 'user_not_found')
+            }
+
+            const passwordCheck = await verifyPassword(password, user.password)
+            if (!passwordCheck.valid) {
+                return sendError(res, 'wrong_password')
+            }
+
+            if (user.email === email) {
+                return sendError(res, 'same_email')
+            }
+
+            const existingUser = await prisma.user.findFirst({
+                where: {
+                    id: { not: user.id },
+                    OR: [
+                        { email },
+                        { pendingEmail: email }
+                    ]
+                }
+            })
+
+            if (existingUser) {
+                return sendError(res, 'email_taken')
+            }
+
+            // 新邮箱验证通过前，仍然使用原邮箱登录
+            const { verificationToken, verificationExpiresAt } = createVerificationToken()
+
+            await prisma.user.update({
+                where: { id: user.id },
+                data: {
+                    pendingEmail: email,
+                    verificationToken,
+                    verificationExpiresAt
+                }
+            })
+
+            try {
+                await sendVerificationEmail(req, email, verificationToken)
+            } catch (emailError) {
+                console.error('Email send error:', emailError)
+                return sendError(res, 'mail_send_failed')
+            }
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'email_change_sent')
+            })
+        } catch (error) {
+            console.error('修改邮箱错误:', error)
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/login', async (req: Request<{}, {}, LoginRequestBody>, res: Response) => {
+    app.post('/api/login', loginRateLimit, validateBody(loginSchema), async (req: Request<{}, {}, LoginRequestBody>, res: Response) => {
         try {
             const { email, password } = req.body
-            if (!email || !password) {
-                return res.status(400).json({ error: '请填写邮箱和密码' })
+            const account = normalizeAccountKey(email)
+            if (!account || !password) {
+                return sendError(res, 'credentials_required')
+            }
+
+            const lockout = await getLoginLockout(account)
+            if (lockout > 0) {
+                return sendLoginLocked(res, lockout)
             }
 
             const user = await prisma.user.findUnique({
@@ -322,28 +669,37 @@ export function setupRoutes(app: Express) {
             })
 
             if (!user) {
-                return res.status(401).json({ error: '邮箱或密码错误' })
+                await verifyDummyPassword(password)
+                return rejectLogin(res, account)
             }
 
-            if (user.password !== password) {
-                return res.status(401).json({ error: '邮箱或密码错误' })
+            const passwordCheck = await verifyPassword(password, user.password)
+            if (!passwordCheck.valid) {
+                return rejectLogin(res, account)
+            }
+
+            await clearLoginFailures(account)
+
+            // 旧格式的密码在登录成功后升级为 scrypt 哈希
+            if (passwordCheck.needsRehash) {
+                await prisma.user.update({
+                    where: { id: user.id },
+                    data: { password: await hashPassword(password) }
+                })
             }
 
             if (!user.isVerified) {
-                return res.status(401).json({ error: '请先前往邮箱完成验证' })
+                return sendError(res, 'email_not_verified')
             }
 
-            const token = generateToken({
-                userId: user.id,
-                name: user.name,
-                phone: user.phone || undefined,
-                email: user.email || ''
-            })
+            const { token, refreshToken, expiresIn } = await createSession(user, req)
 
             res.json({
                 success: true,
-                message: '登录成功',
+                message: responseMessage(res, 'logged_in'),
                 token,
+                refreshToken,
+                expiresIn,
                 user: {
                     id: user.id,
                     name: user.name,
@@ -353,93 +709,84 @@ export function setupRoutes(app: Express) {
             })
         } catch (error) {
             console.error('登录错误:', error)
-            res.status(500).json({ error: '登录失败，请稍后重试' })
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/check-phone', async (req: Request<{}, {}, CheckPhoneRequestBody>, res: Response) => {
+    // 只对已登录用户开放，用于修改资料时检查手机号是否被他人占用，避免匿名枚举
+    app.post('/api/check-phone', checkPhoneRateLimit, validateBody(checkPhoneSchema), async (req: Request<{}, {}, CheckPhoneRequestBody>, res: Response) => {
         try {
             const { phone } = req.body
+            // 注册时还没有 token；已登录时（修改资料）不把自己的手机号算作已占用
+            const payload: JWTPayload | undefined = res.locals.auth
 
-            if (!phone) {
-                return res.status(400).json({ error: '手机号不能为空' })
-            }
-
-            const user = await prisma.user.findUnique({
-                where: { phone }
+            const user = await prisma.user.findFirst({
+                where: {
+                    phone,
+                    ...(payload && { id: { not: payload.userId } })
+                }
             })
 
             res.json({ exists: user !== null })
         } catch (error) {
             console.error('检查手机号错误:', error)
-            res.status(500).json({ error: '检查失败' })
+            sendError(res, 'internal_error')
         }
     })
 
-    interface ChangePasswordRequestBody {
-        password: string
-    }
-
-    app.post('/api/user/change-password', async (req: Request<{}, {}, ChangePasswordRequestBody>, res: Response) => {
+    app.post('/api/user/change-password', validateBody(changePasswordSchema), async (req: Request<{}, {}, ChangePasswordRequestBody>, res: Response) => {
         try {
             const authHeader = req.headers.authorization
             if (!authHeader) {
-                return res.status(401).json({ error: '请先登录' })
+                return sendError(res, 'unauthorized')
             }
             
             const token = authHeader.split(' ')[1]
             const payload = verifyToken(token)
             
             if (!payload) {
-                return res.status(401).json({ error: 'Token无效或已过期' })
+                return sendError(res, 'invalid_token')
             }
 
             const { password } = req.body
 
-            if (!password) {
-                return res.status(400).json({ error: '密码不能为空' })
-            }
-
             await prisma.user.update({
                 where: { id: payload.userId },
-                data: { password }
+                data: { password: await hashPassword(password) }
+            })
+
+            // 修改密码后其他设备需要重新登录
+            await revokeSessions({
+                userId: payload.userId,
+                id: { not: payload.sid }
             })
 
             res.json({
                 success: true,
-                message: '修改成功'
+                message: responseMessage(res, 'password_changed')
             })
         } catch (error) {
             console.error('修改密码错误:', error)
-            res.status(500).json({ error: '修改密码失败，请稍后重试' })
+            sendError(res, 'internal_error')
         }
     })
 
-    interface UpdateUserRequestBody {
-        name: string
-        phone?: string
-    }
-
-    app.post('/api/user/update', async (req: Request<{}, {}, UpdateUserRequestBody>, res: Response) => {
+    app.post('/api/user/update', validateBody(updateUserSchema), async (req: Request<{}, {}, UpdateUserRequestBody>, res: Response) => {
         try {
             const authHeader = req.headers.authorization
             if (!authHeader) {
-                return res.status(401).json({ error: '请先登录' })
+                return sendError(res, 'unauthorized')
             }
             
             const token = authHeader.split(' ')[1]
             const payload = verifyToken(token)
             
             if (!payload) {
-                return res.status(401).json({ error: 'Token无效或已过期' })
+                return sendError(res, 'invalid_token')
             }
 
             const { name, phone } = req.body
 
-            if (!name) {
-                return res.status(400).json({ error: '用户名不能为空' })
-            }
-
             // Check if phone is already taken by another user
             if (phone) {
                 const existingUser = await prisma.user.findFirst({
@@ -450,7 +797,7 @@ export function setupRoutes(app: Express) {
                 })
                 
                 if (existingUser) {
-                    return res.status(400).json({ error: '手机号已被其他用户使用' })
+                    return sendError(res, 'phone_taken')
                 }
             }
 
@@ -462,16 +809,11 @@ export function setupRoutes(app: Express) {
                 }
             })
 
-            const newToken = generateToken({
-                userId: updatedUser.id,
-                name: updatedUser.name,
-                phone: updatedUser.phone || undefined,
-                email: updatedUser.email || ''
-            })
+            const newToken = issueAccessToken(updatedUser, payload.sid)
 
             res.json({
                 success: true,
-                message: '更新成功',
+                message: responseMessage(res, 'profile_updated'),
                 token: newToken,
                 user: {
                     id: updatedUser.id,
@@ -482,22 +824,18 @@ export function setupRoutes(app: Express) {
             })
         } catch (error) {
             console.error('更新用户信息错误:', error)
-            res.status(500).json({ error: '更新失败，请稍后重试' })
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/verify-token', (req: Request, res: Response) => {
+    app.post('/api/verify-token', validateBody(verifyTokenSchema), async (req: Request<{}, {}, VerifyTokenRequestBody>, res: Response) => {
         try {
             const { token } = req.body
 
-            if (!token) {
-                return res.status(400).json({ error: 'Token不能为空' })
-            }
-
             const payload = verifyToken(token)
 
-            if (!payload) {
-                return res.status(401).json({ error: 'Token无效或已过期' })
+            if (!payload || !(await isSessionActive(payload.sid))) {
+                return sendError(res, 'invalid_token')
             }
 
             res.json({
@@ -511,24 +849,24 @@ export function setupRoutes(app: Express) {
             })
         } catch (error) {
             console.error('验证Token错误:', error)
-            res.status(500).json({ error: '验证失败' })
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/rooms', async (req: Request<{}, {}, CreateRoomRequestBody>, res: Response) => {
+    app.post('/api/rooms', validateBody(createRoomSchema), async (req: Request<{}, {}, CreateRoomRequestBody>, res: Response) => {
         try {
             const authHeader = req.headers.authorization
             if (!authHeader) {
-                return res.status(401).json({ error: '请先登录' })
+                return sendError(res, 'unauthorized')
             }
             
             const token = authHeader.split(' ')[1]
             const payload = verifyToken(token)
             if (!payload) {
-                return res.status(401).json({ error: 'Token无效或已过期' })
+                return sendError(res, 'invalid_token')
             }
 
-            const { password, maxUsers } = req.body
+            const { password, maxUsers, persistent, isPublic } = req.body
 
             const roomId = Math.random().toString(36).substring(2, 8).toUpperCase()
 
@@ -538,7 +876,9 @@ export function setupRoutes(app: Express) {
                     password: password || null,
                     ownerId: payload.userId,
                     maxUsers: maxUsers || 10,
-                    status: 'active'
+                    status: 'active',
+                    persistent: persistent === true,
+                    isPublic: isPublic === true
                 }
             })
 
@@ -549,82 +889,84 @@ export function setupRoutes(app: Express) {
                     role: 'owner'
                 }
             })
+            // 创建后需要在宽限期内连接，否则按离开处理
+            scheduleDeparture(room.roomId, payload.userId)
 
             res.status(201).json({
                 success: true,
-                message: '房间创建成功',
+                message: responseMessage(res, 'room_created'),
                 room: {
                     id: room.id,
                     roomId: room.roomId,
                     name: room.name,
                     maxUsers: room.maxUsers,
                     status: room.status,
+                    persistent: room.persistent,
+                    isPublic: room.isPublic,
                     createdAt: room.createdAt
                 }
             })
         } catch (error) {
             console.error('创建房间错误:', error)
-            res.status(500).json({ error: '创建房间失败，请稍后重试' })
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/rooms/leave', async (req: Request<{}, {}, LeaveRoomRequestBody>, res: Response) => {
+    app.post('/api/rooms/leave', validateBody(roomIdSchema), async (req: Request<{}, {}, LeaveRoomRequestBody>, res: Response) => {
         try {
             const authHeader = req.headers.authorization
             if (!authHeader) {
-                return res.status(401).json({ error: '请先登录' })
+                return sendError(res, 'unauthorized')
             }
             
             const token = authHeader.split(' ')[1]
             const payload = verifyToken(token)
             if (!payload) {
-                return res.status(401).json({ error: 'Token无效或已过期' })
+                return sendError(res, 'invalid_token')
             }
 
             const { roomId } = req.body
 
-            if (!roomId) {
-                return res.status(400).json({ error: '房间ID不能为空' })
-            }
-
             const room = await prisma.room.findUnique({
                 where: { roomId }
             })
 
             if (!room) {
-                return res.status(404).json({ error: '房间不存在' })
+                return sendError(res, 'room_not_found')
             }
 
-            if (room.ownerId === payload.userId) {
-                const members = await prisma.roomMember.findMany({
+            if (room.ownerId === payload.userId && room.persistent) {
+                // 持久化房间在房主离开后保留，成员之后仍可回来
+                res.json({
+                    success: true,
+                    message: responseMessage(res, 'room_left')
+                })
+            } else if (room.ownerId === payload.userId && await migrateOwnership(room, 'owner_left')) {
+                await prisma.roomMember.deleteMany({
                     where: {
-                        roomId: room.id
+                        roomId: room.id,
+                        userId: payload.userId
                     }
                 })
-                
-                for (const member of members) {
-                    const clientId = `${room.roomId}_${member.userId}`
-                    const client = clients.get(clientId)
-                    
-                    if (client) {
-                        try {
-                            client.ws.send(JSON.stringify({
-                                type: 'room_deleted',
-                                roomId: room.roomId
-                            }))
-                            console.log(`通知用户 ${member.userId} 房间 ${room.roomId} 已解散`)
-                        } catch (error) {
-                            console.error(`通知用户 ${member.userId} 失败:`, error)
-                        }
-                    }
-                }
+                res.json({
+                    success: true,
+                    message: responseMessage(res, 'room_left_owner_transferred')
+                })
+            } else if (room.ownerId === payload.userId) {
+                // 在线成员可能连接在其他实例上，通过房间广播通知
+                broadcastToRoom(room.roomId, {
+                    type: 'room_deleted',
+                    roomId: room.roomId
+                })
+                console.log(`已通知房间 ${room.roomId} 的成员房间已解散`)
                 
                 await prisma.room.delete({
                     where: { id: room.id }
                 })
+                dropRoomDocument(room.roomId)
                 res.json({
                     success: true,
-                    message: '房间已解散'
+                    message: responseMessage(res, 'room_dissolved')
                 })
             } else {
                 await prisma.roomMember.deleteMany({
@@ -635,33 +977,29 @@ export function setupRoutes(app: Express) {
                 })
                 res.json({
                     success: true,
-                    message: '已退出房间'
+                    message: responseMessage(res, 'room_left')
                 })
             }
         } catch (error) {
             console.error('退出房间错误:', error)
-            res.status(500).json({ error: '退出房间失败，请稍后重试' })
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/rooms/join', async (req: Request<{}, {}, JoinRoomRequestBody>, res: Response) => {
+    app.post('/api/rooms/join', validateBody(joinRoomSchema), async (req: Request<{}, {}, JoinRoomRequestBody>, res: Response) => {
         try {
             const authHeader = req.headers.authorization
             if (!authHeader) {
-                return res.status(401).json({ error: '请先登录' })
+                return sendError(res, 'unauthorized')
             }
             
             const token = authHeader.split(' ')[1]
             const payload = verifyToken(token)
             if (!payload) {
-                return res.status(401).json({ error: 'Token无效或已过期' })
+                return sendError(res, 'invalid_token')
             }
 
             const { roomId, password } = req.body
-
-            if (!roomId) {
-                return res.status(400).json({ error: '房间ID不能为空' })
-            }
             
 
             const room = await prisma.room.findUnique({
@@ -669,11 +1007,28 @@ export function setupRoutes(app: Express) {
             })
 
             if (!room) {
-                return res.status(404).json({ error: '房间不存在' })
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.status === 'archived') {
+                return sendError(res, 'room_archived')
+            }
+
+            const ban = await prisma.roomBan.findUnique({
+                where: {
+                    roomId_userId: {
+                        roomId: room.id,
+                        userId: payload.userId
+                    }
+                }
+            })
+
+            if (ban) {
+                return sendError(res, 'room_banned')
             }
 
             if (room.password && room.password !== password) {
-                return res.status(401).json({ error: '房间密码错误' })
+                return sendError(res, 'room_password_incorrect')
             }
 
             const existingMember = await prisma.roomMember.findUnique({
@@ -685,8 +1040,26 @@ export function setupRoutes(app: Express) {
                 }
             })
 
+            if (existingMember && !room.persistent) {
+                return sendError(res, 'already_member')
+            }
+
+            const roomInfo = {
+                id: room.id,
+                roomId: room.roomId,
+                name: room.name,
+                maxUsers: room.maxUsers,
+                status: room.status,
+                persistent: room.persistent
+            }
+
             if (existingMember) {
-                return res.status(400).json({ error: '您已经在该房间中' })
+                // 持久化房间的成员可以随时回到房间
+                return res.json({
+                    success: true,
+                    message: responseMessage(res, 'room_rejoined'),
+                    room: roomInfo
+                })
             }
 
             const memberCount = await prisma.roomMember.count({
@@ -694,99 +1067,413 @@ export function setupRoutes(app: Express) {
             })
 
             if (memberCount >= room.maxUsers) {
-                return res.status(400).json({ error: '房间人数已满' })
+                return sendError(res, 'room_full')
             }
 
             await prisma.roomMember.create({
                 data: {
                     roomId: room.id,
                     userId: payload.userId,
-                    role: 'member'
+                    role: 'editor'
                 }
             })
+            scheduleDeparture(room.roomId, payload.userId)
 
             res.json({
                 success: true,
-                message: '加入房间成功',
-                room: {
-                    id: room.id,
-                    roomId: room.roomId,
-                    name: room.name,
-                    maxUsers: room.maxUsers,
-                    status: room.status
-                }
+                message: responseMessage(res, 'room_joined'),
+                room: roomInfo
             })
         } catch (error) {
             console.error('加入房间错误:', error)
-            res.status(500).json({ error: '加入房间失败，请稍后重试' })
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/rooms/delete', validateBody(roomIdSchema), async (req: Request<{}, {}, DeleteRoomRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+            
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { roomId } = req.body
+
+            const room = await prisma.room.findUnique({
+                where: { roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            // 在线成员可能连接在其他实例上，通过房间广播通知
+            broadcastToRoom(room.roomId, {
+                type: 'room_deleted',
+                roomId: room.roomId
+            })
+            console.log(`已通知房间 ${room.roomId} 的成员房间已解散`)
+
+            await prisma.room.delete({
+                where: { id: room.id }
+            })
+            dropRoomDocument(room.roomId)
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'room_dissolved')
+            })
+        } catch (error) {
+            console.error('删除房间错误:', error)
+            sendError(res, 'internal_error')
         }
     })
 
-    app.post('/api/rooms/delete', async (req: Request<{}, {}, DeleteRoomRequestBody>, res: Response) => {
+    app.post('/api/rooms/unarchive', validateBody(roomIdSchema), async (req: Request<{}, {}, UnarchiveRoomRequestBody>, res: Response) => {
         try {
             const authHeader = req.headers.authorization
             if (!authHeader) {
-                return res.status(401).json({ error: '请先登录' })
+                return sendError(res, 'unauthorized')
             }
             
             const token = authHeader.split(' ')[1]
             const payload = verifyToken(token)
             if (!payload) {
-                return res.status(401).json({ error: 'Token无效或已过期' })
+                return sendError(res, 'invalid_token')
             }
 
             const { roomId } = req.body
 
-            if (!roomId) {
-                return res.status(400).json({ error: '房间ID不能为空' })
+            const room = await prisma.room.findUnique({
+                where: { roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            if (room.status !== 'archived') {
+                return sendError(res, 'room_not_archived')
+            }
+
+            await prisma.room.update({
+                where: { id: room.id },
+                data: {
+                    status: 'active',
+                    archivedAt: null,
+                    lastActiveAt: new Date()
+                }
+            })
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'room_unarchived')
+            })
+        } catch (error) {
+            console.error('恢复房间错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/rooms/transfer-ownership', validateBody(transferOwnershipSchema), async (req: Request<{}, {}, TransferOwnershipRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+            
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
             }
 
+            const { roomId, userId } = req.body
+
             const room = await prisma.room.findUnique({
                 where: { roomId }
             })
 
             if (!room) {
-                return res.status(404).json({ error: '房间不存在' })
+                return sendError(res, 'room_not_found')
             }
 
             if (room.ownerId !== payload.userId) {
-                return res.status(403).json({ error: '只有房主才能解散房间' })
+                return sendError(res, 'owner_only')
+            }
+
+            if (userId === payload.userId) {
+                return sendError(res, 'already_owner')
             }
 
-            const members = await prisma.roomMember.findMany({
+            const member = await prisma.roomMember.findUnique({
                 where: {
-                    roomId: room.id
+                    roomId_userId: {
+                        roomId: room.id,
+                        userId
+                    }
+                }
+            })
+
+            if (!member) {
+                return sendError(res, 'member_not_found')
+            }
+
+            await transferOwnership(room, userId, 'transferred')
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'ownership_transferred')
+            })
+        } catch (error) {
+            console.error('转让房主错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/rooms/successor', validateBody(setSuccessorSchema), async (req: Request<{}, {}, SetSuccessorRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+            
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { roomId, userId } = req.body
+
+            const room = await prisma.room.findUnique({
+                where: { roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            if (userId) {
+                if (userId === payload.userId) {
+                    return sendError(res, 'cannot_choose_self_successor')
                 }
+
+                const member = await prisma.roomMember.findUnique({
+                    where: {
+                        roomId_userId: {
+                            roomId: room.id,
+                            userId
+                        }
+                    }
+                })
+
+                if (!member) {
+                    return sendError(res, 'member_not_found')
+                }
+            }
+
+            await prisma.room.update({
+                where: { id: room.id },
+                data: { successorId: userId || null }
+            })
+
+            res.json({
+                success: true,
+                message: responseMessage(res, userId ? 'successor_set' : 'successor_cleared')
             })
+        } catch (error) {
+            console.error('设置继任者错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/rooms/members/role', validateBody(changeMemberRoleSchema), async (req: Request<{}, {}, ChangeMemberRoleRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
             
-            for (const member of members) {
-                const clientId = `${room.roomId}_${member.userId}`
-                const client = clients.get(clientId)
-                
-                if (client) {
-                    try {
-                        client.ws.send(JSON.stringify({
-                            type: 'room_deleted',
-                            roomId: room.roomId
-                        }))
-                        console.log(`通知用户 ${member.userId} 房间 ${room.roomId} 已解散`)
-                    } catch (error) {
-                        console.error(`通知用户 ${member.userId} 失败:`, error)
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { roomId, userId, role } = req.body
+
+            const room = await prisma.room.findUnique({
+                where: { roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            if (userId === payload.userId) {
+                return sendError(res, 'cannot_change_own_role')
+            }
+
+            const member = await prisma.roomMember.findUnique({
+                where: {
+                    roomId_userId: {
+                        roomId: room.id,
+                        userId
                     }
                 }
+            })
+
+            if (!member) {
+                return sendError(res, 'member_not_found')
             }
 
-            await prisma.room.delete({
-                where: { id: room.id }
+            await changeMemberRole(room, userId, role)
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'role_updated'),
+                member: {
+                    userId,
+                    role
+                }
+            })
+        } catch (error) {
+            console.error('修改成员角色错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.patch('/api/rooms/:roomId', validateBody(updateRoomSettingsSchema), async (req: Request<{ roomId: string }, {}, UpdateRoomSettingsRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+            
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const room = await prisma.room.findUnique({
+                where: { roomId: req.params.roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            const { name, password, maxUsers, status, isPublic, persistent } = req.body
+            const data: {
+                name?: string
+                password?: string | null
+                maxUsers?: number
+                status?: string
+                archivedAt?: Date | null
+                lastActiveAt?: Date
+                isPublic?: boolean
+                persistent?: boolean
+            } = {}
+
+            // 只修改请求中出现的字段
+            if (name !== undefined) {
+                data.name = name || '未命名房间'
+            }
+
+            if (password !== undefined) {
+                // 传 null 或空字符串表示取消密码
+                data.password = password || null
+            }
+
+            if (maxUsers !== undefined) {
+                const memberCount = await prisma.roomMember.count({
+                    where: { roomId: room.id }
+                })
+                if (maxUsers < memberCount) {
+                    return sendError(res, 'max_users_below_members', { count: memberCount })
+                }
+                data.maxUsers = maxUsers
+            }
+
+            if (status !== undefined && status !== room.status) {
+                data.status = status
+                data.archivedAt = status === 'archived' ? new Date() : null
+                data.lastActiveAt = new Date()
+            }
+
+            if (isPublic !== undefined) {
+                data.isPublic = isPublic
+            }
+
+            if (persistent !== undefined) {
+                data.persistent = persistent
+            }
+
+            const updatedRoom = await prisma.room.update({
+                where: { id: room.id },
+                data
+            })
+
+            if (data.status === 'archived') {
+                await flushRoomDocument(room.roomId)
+            }
+
+            const settings = {
+                name: updatedRoom.name,
+                hasPassword: !!updatedRoom.password,
+                maxUsers: updatedRoom.maxUsers,
+                status: updatedRoom.status,
+                isPublic: updatedRoom.isPublic,
+                persistent: updatedRoom.persistent
+            }
+
+            broadcastToRoom(room.roomId, {
+                type: 'room_settings_updated',
+                roomId: room.roomId,
+                changed: Object.keys(data).filter(key => key !== 'archivedAt' && key !== 'lastActiveAt'),
+                settings
             })
 
             res.json({
                 success: true,
-                message: '房间已解散'
+                message: responseMessage(res, 'room_settings_updated'),
+                room: {
+                    id: updatedRoom.id,
+                    roomId: updatedRoom.roomId,
+                    ...settings
+                }
             })
         } catch (error) {
-            console.error('删除房间错误:', error)
-            res.status(500).json({ error: '删除房间失败，请稍后重试' })
+            console.error('更新房间设置错误:', error)
+            sendError(res, 'internal_error')
         }
     })
 }
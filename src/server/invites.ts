@@ -0,0 +1,334 @@
+import prisma from '../lib/prisma'
+import { Request, Response, Express } from 'express'
+import { RoomInvite } from '@prisma/client'
+import { verifyToken, generateInviteToken, verifyInviteToken } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { responseMessage } from '../utils/messages'
+import { DEFAULT_INVITE_EXPIRES_IN, MAX_INVITE_EXPIRES_IN, APP_URL } from '../constants'
+import { sendMail } from '../mail'
+import { resolveLocale } from '../utils/locale'
+import { ASSIGNABLE_ROLES } from './permissions'
+import { scheduleDeparture } from './presence'
+import { object, string, number, email, oneOf, validateBody, Infer } from '../utils/validation'
+
+const createInviteSchema = object({
+    roomId: string({ max: 191 }),
+    expiresIn: number({ integer: true, min: 1, max: MAX_INVITE_EXPIRES_IN }).optional(),
+    maxUses: number({ integer: true, min: 1 }).nullable().optional(),
+    role: oneOf(ASSIGNABLE_ROLES).optional(),
+    email: email().optional()
+})
+
+type CreateInviteRequestBody = Infer<typeof createInviteSchema>
+
+const revokeInviteSchema = object({
+    inviteId: string({ max: 191 })
+})
+
+type RevokeInviteRequestBody = Infer<typeof revokeInviteSchema>
+
+const joinByInviteSchema = object({
+    token: string({ max: 1024 })
+})
+
+type JoinByInviteRequestBody = Infer<typeof joinByInviteSchema>
+
+function serializeInvite(invite: RoomInvite, roomId: string) {
+    return {
+        id: invite.id,
+        token: generateInviteToken({ inviteId: invite.id, roomId }, invite.expiresAt),
+        role: invite.role,
+        maxUses: invite.maxUses,
+        uses: invite.uses,
+        expiresAt: invite.expiresAt,
+        createdAt: invite.createdAt
+    }
+}
+
+export function setupInviteRoutes(app: Express) {
+    app.post('/api/rooms/invites', validateBody(createInviteSchema), async (req: Request<{}, {}, CreateInviteRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { roomId, expiresIn, maxUses, role, email } = req.body
+
+            const room = await prisma.room.findUnique({
+                where: { roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            const invite = await prisma.roomInvite.create({
+                data: {
+                    roomId: room.id,
+                    createdById: payload.userId,
+                    role: role || 'editor',
+                    maxUses: maxUses ?? null,
+                    expiresAt: new Date(Date.now() + (expiresIn || DEFAULT_INVITE_EXPIRES_IN) * 1000)
+                }
+            })
+
+            const serialized = serializeInvite(invite, room.roomId)
+
+            // 填写了邮箱时顺便把邀请链接发给对方
+            if (email) {
+                try {
+                    await sendMail(email, 'room_invite', {
+                        inviterName: payload.name,
+                        roomName: room.name || room.roomId,
+                        url: `${APP_URL}/invite?token=${serialized.token}`,
+                        expiresAt: invite.expiresAt
+                    }, resolveLocale(req.get('accept-language')))
+                } catch (emailError) {
+                    console.error('Email send error:', emailError)
+                    return res.status(201).json({
+                        success: true,
+                        message: responseMessage(res, 'invite_created_mail_failed'),
+                        invite: serialized,
+                        emailSent: false
+                    })
+                }
+            }
+
+            res.status(201).json({
+                success: true,
+                message: responseMessage(res, 'invite_created'),
+                invite: serialized
+            })
+        } catch (error) {
+            console.error('创建邀请错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/rooms/:roomId/invites', async (req: Request<{ roomId: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const room = await prisma.room.findUnique({
+                where: { roomId: req.params.roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            const invites = await prisma.roomInvite.findMany({
+                where: {
+                    roomId: room.id,
+                    revokedAt: null,
+                    expiresAt: { gt: new Date() },
+                    OR: [
+                        { maxUses: null },
+                        { uses: { lt: prisma.roomInvite.fields.maxUses } }
+                    ]
+                },
+                orderBy: { createdAt: 'desc' }
+            })
+
+            res.json({
+                success: true,
+                invites: invites.map(invite => serializeInvite(invite, room.roomId))
+            })
+        } catch (error) {
+            console.error('获取邀请列表错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/rooms/invites/revoke', validateBody(revokeInviteSchema), async (req: Request<{}, {}, RevokeInviteRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { inviteId } = req.body
+
+            const invite = await prisma.roomInvite.findUnique({
+                where: { id: inviteId },
+                include: { room: true }
+            })
+
+            if (!invite) {
+                return sendError(res, 'invite_not_found')
+            }
+
+            if (invite.room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            await prisma.roomInvite.update({
+                where: { id: invite.id },
+                data: { revokedAt: invite.revokedAt || new Date() }
+            })
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'invite_revoked')
+            })
+        } catch (error) {
+            console.error('撤销邀请错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/rooms/join-by-invite', validateBody(joinByInviteSchema), async (req: Request<{}, {}, JoinByInviteRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const inviteToken = verifyInviteToken(req.body.token)
+            if (!inviteToken) {
+                return sendError(res, 'invalid_invite')
+            }
+
+            const invite = await prisma.roomInvite.findUnique({
+                where: { id: inviteToken.inviteId },
+                include: { room: true }
+            })
+
+            if (!invite || invite.revokedAt || invite.expiresAt <= new Date()) {
+                return sendError(res, 'invalid_invite')
+            }
+
+            const room = invite.room
+
+            if (room.status === 'archived') {
+                return sendError(res, 'room_archived')
+            }
+
+            const roomInfo = {
+                id: room.id,
+                roomId: room.roomId,
+                name: room.name,
+                maxUsers: room.maxUsers,
+                status: room.status,
+                persistent: room.persistent
+            }
+
+            const ban = await prisma.roomBan.findUnique({
+                where: {
+                    roomId_userId: {
+                        roomId: room.id,
+                        userId: payload.userId
+                    }
+                }
+            })
+
+            if (ban) {
+                return sendError(res, 'room_banned')
+            }
+
+            const existingMember = await prisma.roomMember.findUnique({
+                where: {
+                    roomId_userId: {
+                        roomId: room.id,
+                        userId: payload.userId
+                    }
+                }
+            })
+
+            // 已是成员时不消耗邀请次数，也不改变原有角色
+            if (existingMember) {
+                return res.json({
+                    success: true,
+                    message: responseMessage(res, 'already_member'),
+                    room: roomInfo
+                })
+            }
+
+            const memberCount = await prisma.roomMember.count({
+                where: { roomId: room.id }
+            })
+
+            if (memberCount >= room.maxUsers) {
+                return sendError(res, 'room_full')
+            }
+
+            const joined = await prisma.$transaction(async tx => {
+                const claimed = await tx.roomInvite.updateMany({
+                    where: {
+                        id: invite.id,
+                        revokedAt: null,
+                        OR: [
+                            { maxUses: null },
+                            { uses: { lt: prisma.roomInvite.fields.maxUses } }
+                        ]
+                    },
+                    data: { uses: { increment: 1 } }
+                })
+
+                if (claimed.count === 0) {
+                    return false
+                }
+
+                await tx.roomMember.create({
+                    data: {
+                        roomId: room.id,
+                        userId: payload.userId,
+                        role: invite.role
+                    }
+                })
+                return true
+            })
+
+            if (!joined) {
+                return sendError(res, 'invite_exhausted')
+            }
+            scheduleDeparture(room.roomId, payload.userId)
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'room_joined'),
+                room: roomInfo,
+                role: invite.role
+            })
+        } catch (error) {
+            console.error('通过邀请加入房间错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
@@ -0,0 +1,109 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { EventEmitter } from 'events'
+import { trackLiveness } from './liveness'
+
+class FakeSocket extends EventEmitter {
+    pings = 0
+    terminated = false
+
+    ping() {
+        this.pings++
+    }
+
+    terminate() {
+        this.terminated = true
+        this.emit('close')
+    }
+}
+
+const INTERVAL = 1000
+
+describe('trackLiveness', () => {
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['setInterval', 'Date'] })
+    })
+
+    afterEach(() => {
+        mock.timers.reset()
+    })
+
+    it('每个间隔发送一次 ping', () => {
+        const ws = new FakeSocket()
+        trackLiveness(ws, { intervalMs: INTERVAL, maxMissed: 3 })
+
+        mock.timers.tick(INTERVAL * 2)
+        assert.equal(ws.pings, 2)
+        assert.equal(ws.terminated, false)
+    })
+
+    it('收到 pong 后重新计数', () => {
+        const ws = new FakeSocket()
+        const liveness = trackLiveness(ws, { intervalMs: INTERVAL, maxMissed: 3 })
+
+        for (let i = 0; i < 10; i++) {
+            mock.timers.tick(INTERVAL)
+            ws.emit('pong')
+        }
+
+        assert.equal(liveness.missed, 0)
+        assert.equal(liveness.lastSeen, INTERVAL * 10)
+        assert.equal(ws.terminated, false)
+    })
+
+    it('连续错过 maxMissed 次 pong 后断开连接', () => {
+        const ws = new FakeSocket()
+        const onTimeout = mock.fn()
+        const liveness = trackLiveness(ws, { intervalMs: INTERVAL, maxMissed: 3, onTimeout })
+
+        mock.timers.tick(INTERVAL * 3)
+        assert.equal(liveness.missed, 3)
+        assert.equal(ws.terminated, false)
+
+        mock.timers.tick(INTERVAL)
+        assert.equal(ws.terminated, true)
+        assert.equal(liveness.timedOut, true)
+        assert.equal(onTimeout.mock.callCount(), 1)
+
+        // 断开后不再继续 ping
+        mock.timers.tick(INTERVAL * 5)
+        assert.equal(ws.pings, 3)
+    })
+
+    it('偶尔错过 pong 不会断开', () => {
+        const ws = new FakeSocket()
+        trackLiveness(ws, { intervalMs: INTERVAL, maxMissed: 3 })
+
+        mock.timers.tick(INTERVAL * 2)
+        ws.emit('pong')
+        mock.timers.tick(INTERVAL * 2)
+        ws.emit('pong')
+        mock.timers.tick(INTERVAL * 3)
+
+        assert.equal(ws.terminated, false)
+    })
+
+    it('客户端的其他消息同样视为存活', () => {
+        const ws = new FakeSocket()
+        const liveness = trackLiveness(ws, { intervalMs: INTERVAL, maxMissed: 2 })
+
+        for (let i = 0; i < 5; i++) {
+            mock.timers.tick(INTERVAL)
+            liveness.markAlive()
+        }
+
+        assert.equal(ws.terminated, false)
+    })
+
+    it('连接关闭后停止计时', () => {
+        const ws = new FakeSocket()
+        const liveness = trackLiveness(ws, { intervalMs: INTERVAL, maxMissed: 1 })
+
+        ws.emit('close')
+        mock.timers.tick(INTERVAL * 5)
+
+        assert.equal(ws.pings, 0)
+        assert.equal(ws.terminated, false)
+        assert.equal(liveness.timedOut, false)
+    })
+})
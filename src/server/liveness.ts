@@ -0,0 +1,65 @@
+// 只依赖这几个方法，测试时可以用假的连接代替 ws
+export interface LivenessSocket {
+    ping(): void
+    terminate(): void
+    on(event: 'pong' | 'close', listener: () => void): unknown
+}
+
+export interface LivenessOptions {
+    intervalMs: number
+    // 连续这么多次 ping 没有收到 pong 就断开连接
+    maxMissed: number
+    onTimeout?: () => void
+}
+
+export interface Liveness {
+    readonly missed: number
+    readonly lastSeen: number
+    readonly timedOut: boolean
+    // 收到 pong 或客户端的任意消息时调用
+    markAlive(): void
+    stop(): void
+}
+
+// 每个连接一个定时器，完全在内存中判断连接是否存活
+export function trackLiveness(ws: LivenessSocket, options: LivenessOptions): Liveness {
+    let missed = 0
+    let lastSeen = Date.now()
+    let timedOut = false
+
+    const timer = setInterval(() => {
+        if (missed >= options.maxMissed) {
+            timedOut = true
+            clearInterval(timer)
+            options.onTimeout?.()
+            ws.terminate()
+            return
+        }
+
+        missed++
+        try {
+            ws.ping()
+        } catch (error) {
+            // 连接已经关闭，等待 close 事件
+        }
+    }, options.intervalMs)
+    timer.unref()
+
+    const liveness: Liveness = {
+        get missed() { return missed },
+        get lastSeen() { return lastSeen },
+        get timedOut() { return timedOut },
+        markAlive() {
+            missed = 0
+            lastSeen = Date.now()
+        },
+        stop() {
+            clearInterval(timer)
+        }
+    }
+
+    ws.on('pong', () => liveness.markAlive())
+    ws.on('close', () => liveness.stop())
+
+    return liveness
+}
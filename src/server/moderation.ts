@@ -0,0 +1,256 @@
+import prisma from '../lib/prisma'
+import { Request, Response, Express } from 'express'
+import { Room } from '@prisma/client'
+import { verifyToken } from '../utils/jwt'
+import { sendRoomControl } from '../index'
+import { ServerMessage } from '../protocol'
+import { normalizeRole, hasRole } from './permissions'
+import { ErrorCode, sendError } from '../utils/errors'
+import { responseMessage, MessageKey } from '../utils/messages'
+import { object, string, boolean, validateBody, Infer } from '../utils/validation'
+
+export type ModerationAction = 'kick' | 'ban' | 'unban' | 'mute' | 'unmute'
+
+export interface ModerationResult {
+    code?: ErrorCode
+}
+
+const moderateMemberSchema = object({
+    roomId: string({ max: 191 }),
+    userId: string({ max: 191 }),
+    reason: string({ min: 0, max: 191 }).optional()
+})
+
+type ModerateMemberRequestBody = Infer<typeof moderateMemberSchema>
+
+const muteMemberSchema = object({
+    roomId: string({ max: 191 }),
+    userId: string({ max: 191 }),
+    muted: boolean().optional()
+})
+
+type MuteMemberRequestBody = Infer<typeof muteMemberSchema>
+
+// 成员可能连接在其他实例上，由持有连接的实例通知并断开
+function disconnectMember(room: Room, userId: string, notification: ServerMessage) {
+    sendRoomControl({ action: 'disconnect', roomId: room.roomId, userId, notification })
+}
+
+// 房主和协管员可以管理成员；协管员只能管理比自己角色低的成员，任何人都不能管理房主
+async function checkModerator(room: Room, actorId: string, targetId: string, action: ModerationAction): Promise<ModerationResult | null> {
+    if (actorId === targetId) {
+        return { code: 'invalid_target' }
+    }
+
+    const actor = await prisma.roomMember.findUnique({
+        where: { roomId_userId: { roomId: room.id, userId: actorId } }
+    })
+    const actorRole = room.ownerId === actorId ? 'owner' : normalizeRole(actor?.role)
+
+    if (!actor || !hasRole(actorRole, 'moderator')) {
+        return { code: 'moderator_only' }
+    }
+
+    if (action === 'unban') {
+        return null
+    }
+
+    const target = await prisma.roomMember.findUnique({
+        where: { roomId_userId: { roomId: room.id, userId: targetId } }
+    })
+
+    if (!target) {
+        if (room.ownerId === targetId) {
+            return { code: 'cannot_moderate_member' }
+        }
+        // 已经离开房间的用户也可以封禁，避免先退出再通过邀请或公开列表回来
+        if (action === 'ban') {
+            const user = await prisma.user.findUnique({ where: { id: targetId } })
+            return user ? null : { code: 'user_not_found' }
+        }
+        return { code: 'member_not_found' }
+    }
+
+    const targetRole = room.ownerId === targetId ? 'owner' : normalizeRole(target.role)
+    if (targetRole === 'owner' || (actorRole !== 'owner' && hasRole(targetRole, 'moderator'))) {
+        return { code: 'cannot_moderate_member' }
+    }
+
+    return null
+}
+
+export async function moderateMember(roomId: string, actorId: string, targetId: string, action: ModerationAction, reason?: string): Promise<ModerationResult> {
+    if (!targetId || typeof targetId !== 'string') {
+        return { code: 'member_id_required' }
+    }
+
+    const room = await prisma.room.findUnique({ where: { roomId } })
+    if (!room) {
+        return { code: 'room_not_found' }
+    }
+
+    const denied = await checkModerator(room, actorId, targetId, action)
+    if (denied) {
+        return denied
+    }
+
+    const memberKey = { roomId_userId: { roomId: room.id, userId: targetId } }
+
+    switch (action) {
+        case 'kick':
+            await prisma.roomMember.delete({ where: memberKey })
+            disconnectMember(room, targetId, { type: 'kicked', roomId: room.roomId, reason: reason || null })
+            break
+        case 'ban':
+            await prisma.$transaction([
+                prisma.roomBan.upsert({
+                    where: memberKey,
+                    update: { bannedById: actorId, reason: reason || null },
+                    create: { roomId: room.id, userId: targetId, bannedById: actorId, reason: reason || null }
+                }),
+                prisma.roomMember.deleteMany({ where: { roomId: room.id, userId: targetId } })
+            ])
+            disconnectMember(room, targetId, { type: 'banned', roomId: room.roomId, reason: reason || null })
+            break
+        case 'unban': {
+            const result = await prisma.roomBan.deleteMany({
+                where: { roomId: room.id, userId: targetId }
+            })
+            if (result.count === 0) {
+                return { code: 'not_banned' }
+            }
+            break
+        }
+        case 'mute':
+        case 'unmute': {
+            const muted = action === 'mute'
+            await prisma.roomMember.update({
+                where: memberKey,
+                data: { muted }
+            })
+            sendRoomControl({ action: 'set_muted', roomId: room.roomId, userId: targetId, muted })
+            break
+        }
+    }
+
+    console.log(`用户 ${actorId} 对房间 ${room.roomId} 的成员 ${targetId} 执行了 ${action}`)
+    return {}
+}
+
+export function setupModerationRoutes(app: Express) {
+    const routes: [string, ModerationAction, MessageKey][] = [
+        ['/api/rooms/members/kick', 'kick', 'member_kicked'],
+        ['/api/rooms/members/ban', 'ban', 'member_banned'],
+        ['/api/rooms/members/unban', 'unban', 'member_unbanned']
+    ]
+
+    for (const [route, action, message] of routes) {
+        app.post(route, validateBody(moderateMemberSchema), async (req: Request<{}, {}, ModerateMemberRequestBody>, res: Response) => {
+            try {
+                const authHeader = req.headers.authorization
+                if (!authHeader) {
+                    return sendError(res, 'unauthorized')
+                }
+
+                const token = authHeader.split(' ')[1]
+                const payload = verifyToken(token)
+                if (!payload) {
+                    return sendError(res, 'invalid_token')
+                }
+
+                const { roomId, userId, reason } = req.body
+
+                const result = await moderateMember(roomId, payload.userId, userId, action, reason)
+                if (result.code) {
+                    return sendError(res, result.code)
+                }
+
+                res.json({ success: true, message: responseMessage(res, message) })
+            } catch (error) {
+                console.error('管理成员错误:', error)
+                sendError(res, 'internal_error')
+            }
+        })
+    }
+
+    app.post('/api/rooms/members/mute', validateBody(muteMemberSchema), async (req: Request<{}, {}, MuteMemberRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { roomId, userId, muted } = req.body
+
+            const result = await moderateMember(roomId, payload.userId, userId, muted === false ? 'unmute' : 'mute')
+            if (result.code) {
+                return sendError(res, result.code)
+            }
+
+            res.json({
+                success: true,
+                message: responseMessage(res, muted === false ? 'member_unmuted' : 'member_muted')
+            })
+        } catch (error) {
+            console.error('禁言成员错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/rooms/:roomId/bans', async (req: Request<{ roomId: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const room = await prisma.room.findUnique({
+                where: { roomId: req.params.roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            const actor = await prisma.roomMember.findUnique({
+                where: { roomId_userId: { roomId: room.id, userId: payload.userId } }
+            })
+            if (!actor || !hasRole(normalizeRole(actor.role), 'moderator')) {
+                return sendError(res, 'moderator_only')
+            }
+
+            const bans = await prisma.roomBan.findMany({
+                where: { roomId: room.id },
+                orderBy: { createdAt: 'desc' },
+                include: {
+                    user: { select: { id: true, name: true } }
+                }
+            })
+
+            res.json({
+                success: true,
+                bans: bans.map(ban => ({
+                    user: ban.user,
+                    bannedById: ban.bannedById,
+                    reason: ban.reason,
+                    createdAt: ban.createdAt
+                }))
+            })
+        } catch (error) {
+            console.error('获取禁止名单错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
@@ -0,0 +1,92 @@
+import prisma from '../lib/prisma'
+import { Room } from '@prisma/client'
+import { clients, broadcastToRoom, getRoomPresence, sendRoomControl } from '../index'
+import { MAX_FAILED_HEARTBEATS } from '../constants'
+import { RoomRole } from './permissions'
+import { OwnerChangeReason } from '../protocol'
+
+// 所有实例上的在线成员，本实例上心跳已超时的连接不算在内
+async function getConnectedUserIds(roomId: string): Promise<Set<string>> {
+    const connected = new Set((await getRoomPresence(roomId)).map(user => user.userId))
+    clients.forEach(client => {
+        if (client.roomId === roomId && client.liveness.missed >= MAX_FAILED_HEARTBEATS) {
+            connected.delete(client.userId)
+        }
+    })
+    return connected
+}
+
+// 优先选择房主指定的继任者，其次是加入最早且仍在线的成员
+export async function pickSuccessor(room: Room): Promise<string | null> {
+    const members = await prisma.roomMember.findMany({
+        where: {
+            roomId: room.id,
+            userId: { not: room.ownerId }
+        },
+        orderBy: { joinedAt: 'asc' }
+    })
+
+    const online = await getConnectedUserIds(room.roomId)
+    const connected = members.filter(member => online.has(member.userId))
+
+    if (room.successorId && connected.some(member => member.userId === room.successorId)) {
+        return room.successorId
+    }
+
+    return connected.length > 0 ? connected[0].userId : null
+}
+
+export async function transferOwnership(room: Room, newOwnerId: string, reason: OwnerChangeReason) {
+    const previousOwnerId = room.ownerId
+
+    await prisma.$transaction([
+        prisma.room.update({
+            where: { id: room.id },
+            data: {
+                ownerId: newOwnerId,
+                successorId: room.successorId === newOwnerId ? null : room.successorId
+            }
+        }),
+        prisma.roomMember.updateMany({
+            where: { roomId: room.id, userId: previousOwnerId },
+            data: { role: 'editor' }
+        }),
+        prisma.roomMember.update({
+            where: {
+                roomId_userId: {
+                    roomId: room.id,
+                    userId: newOwnerId
+                }
+            },
+            data: { role: 'owner' }
+        })
+    ])
+
+    const roles: [string, RoomRole][] = [[previousOwnerId, 'editor'], [newOwnerId, 'owner']]
+    for (const [userId, role] of roles) {
+        sendRoomControl({ action: 'set_role', roomId: room.roomId, userId, role })
+    }
+
+    const newOwner = await prisma.user.findUnique({ where: { id: newOwnerId } })
+
+    broadcastToRoom(room.roomId, {
+        type: 'owner_changed',
+        roomId: room.roomId,
+        ownerId: newOwnerId,
+        ownerName: newOwner?.name,
+        previousOwnerId,
+        reason
+    })
+    console.log(`房间 ${room.roomId} 的房主由 ${previousOwnerId} 转移给 ${newOwnerId} (${reason})`)
+}
+
+// 将房主转移给合适的在线成员，返回新房主ID；没有可用成员时返回 null
+export async function migrateOwnership(room: Room, reason: OwnerChangeReason): Promise<string | null> {
+    const successorId = await pickSuccessor(room)
+    if (!successorId) {
+        return null
+    }
+
+    await transferOwnership(room, successorId, reason)
+    return successorId
+}
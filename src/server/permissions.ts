@@ -0,0 +1,70 @@
+import prisma from '../lib/prisma'
+import { Room } from '@prisma/client'
+import { broadcastToRoom, sendRoomControl } from '../index'
+import { RoomRole, AssignableRole, ClientMessageType } from '../protocol'
+
+export type { RoomRole, AssignableRole }
+
+export const ROOM_ROLES: RoomRole[] = ['owner', 'moderator', 'editor', 'viewer']
+
+// 房主可以分配的角色；房主身份只能通过转让房主变更
+export const ASSIGNABLE_ROLES: AssignableRole[] = ['moderator', 'editor', 'viewer']
+
+const ROLE_RANK: Record<RoomRole, number> = {
+    viewer: 0,
+    editor: 1,
+    moderator: 2,
+    owner: 3
+}
+
+// 每种 WebSocket 消息所需的最低角色，未列出的消息所有成员都可以发送
+const MESSAGE_MIN_ROLE: Partial<Record<ClientMessageType, RoomRole>> = {
+    draw_event: 'editor',
+    layer_order_update: 'editor',
+    save_snapshot: 'owner',
+    set_role: 'owner',
+    kick_member: 'moderator',
+    ban_member: 'moderator',
+    unban_member: 'moderator',
+    mute_member: 'moderator',
+    unmute_member: 'moderator'
+}
+
+export function normalizeRole(role: string | null | undefined): RoomRole {
+    // 旧数据中的 member 等同于 editor
+    if (role && (ROOM_ROLES as string[]).includes(role)) {
+        return role as RoomRole
+    }
+    return 'editor'
+}
+
+export function hasRole(role: RoomRole, minimum: RoomRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[minimum]
+}
+
+export function canSendMessage(role: RoomRole, type: ClientMessageType): boolean {
+    const minimum = MESSAGE_MIN_ROLE[type]
+    return !minimum || hasRole(role, minimum)
+}
+
+export async function changeMemberRole(room: Room, userId: string, role: RoomRole) {
+    await prisma.roomMember.update({
+        where: {
+            roomId_userId: {
+                roomId: room.id,
+                userId
+            }
+        },
+        data: { role }
+    })
+
+    sendRoomControl({ action: 'set_role', roomId: room.roomId, userId, role })
+
+    broadcastToRoom(room.roomId, {
+        type: 'role_changed',
+        roomId: room.roomId,
+        userId,
+        role
+    })
+    console.log(`房间 ${room.roomId} 成员 ${userId} 的角色变更为 ${role}`)
+}
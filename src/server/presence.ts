@@ -0,0 +1,70 @@
+import prisma from '../lib/prisma'
+import { broadcastToRoom, getRoomPresence } from '../index'
+import { PRESENCE_GRACE_PERIOD } from '../constants'
+import { migrateOwnership } from './ownership'
+import { dropRoomDocument } from './roomState'
+
+type DepartureReason = 'owner_disconnected' | 'owner_timeout'
+
+const pendingDepartures = new Map<string, NodeJS.Timeout>()
+
+// 成员断开连接（或加入房间后还没有建立连接）时调用，宽限期内没有回到房间才按离开处理
+export function scheduleDeparture(roomId: string, userId: string, reason: DepartureReason = 'owner_disconnected') {
+    const key = `${roomId}_${userId}`
+    clearTimeout(pendingDepartures.get(key))
+
+    const timer = setTimeout(() => {
+        pendingDepartures.delete(key)
+        handleDeparture(roomId, userId, reason).catch(error => {
+            console.error(`处理用户 ${userId} 离开房间 ${roomId} 失败:`, error)
+        })
+    }, PRESENCE_GRACE_PERIOD * 1000)
+    timer.unref()
+    pendingDepartures.set(key, timer)
+}
+
+export function cancelDeparture(roomId: string, userId: string) {
+    const key = `${roomId}_${userId}`
+    clearTimeout(pendingDepartures.get(key))
+    pendingDepartures.delete(key)
+}
+
+// 临时房间的成员离开后移除其成员身份；房主离开时先尝试转移，无人可转移则解散房间
+async function handleDeparture(roomId: string, userId: string, reason: DepartureReason) {
+    // 可能已经在其他实例上重新连接
+    const presence = await getRoomPresence(roomId)
+    if (presence.some(user => user.userId === userId)) {
+        return
+    }
+
+    const room = await prisma.room.findUnique({ where: { roomId } })
+    if (!room || room.persistent || room.status !== 'active') {
+        return
+    }
+
+    if (room.ownerId === userId && !await migrateOwnership(room, reason)) {
+        broadcastToRoom(roomId, {
+            type: 'room_deleted',
+            roomId,
+            reason
+        })
+        await prisma.room.delete({ where: { id: room.id } })
+        dropRoomDocument(roomId)
+        console.log(`房主 ${userId} 已离开且没有其他在线成员，已删除房间 ${roomId}`)
+        return
+    }
+
+    await prisma.roomMember.deleteMany({
+        where: { roomId: room.id, userId }
+    })
+    console.log(`用户 ${userId} 已离开房间 ${roomId}，移除成员`)
+
+    const remainingMembers = await prisma.roomMember.count({
+        where: { roomId: room.id }
+    })
+    if (remainingMembers === 0) {
+        await prisma.room.delete({ where: { id: room.id } })
+        dropRoomDocument(roomId)
+        console.log(`房间 ${roomId} 无成员，已删除`)
+    }
+}
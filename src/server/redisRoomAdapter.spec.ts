@@ -0,0 +1,305 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import net from 'net'
+import { AddressInfo } from 'net'
+import { RespClient, parseReply } from '../utils/resp'
+import { RedisRoomAdapter } from './redisRoomAdapter'
+import { RoomEnvelope, RoomControl } from './roomAdapter'
+
+// 只实现测试用到的命令的 Redis 替身
+class RespStandIn {
+    readonly server: net.Server
+    private values = new Map<string, string>()
+    private sets = new Map<string, Set<string>>()
+    private subscribers = new Map<string, Set<net.Socket>>()
+
+    constructor() {
+        this.server = net.createServer(socket => {
+            let buffer = Buffer.alloc(0)
+            socket.on('data', chunk => {
+                buffer = Buffer.concat([buffer, chunk])
+                let offset = 0
+                let request
+                while ((request = parseReply(buffer, offset))) {
+                    offset = request.end
+                    this.handle(socket, request.value as string[])
+                }
+                buffer = buffer.subarray(offset)
+            })
+            socket.on('close', () => this.subscribers.forEach(sockets => sockets.delete(socket)))
+        })
+    }
+
+    listen(): Promise<string> {
+        return new Promise(resolve => {
+            this.server.listen(0, '127.0.0.1', () => {
+                resolve(`redis://127.0.0.1:${(this.server.address() as AddressInfo).port}`)
+            })
+        })
+    }
+
+    close(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()))
+    }
+
+    private handle(socket: net.Socket, [name, ...args]: string[]) {
+        const bulk = (value: string | null) => value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+        const array = (values: (string | null)[]) => `*${values.length}\r\n${values.map(bulk).join('')}`
+
+        switch (name.toUpperCase()) {
+            case 'ECHO':
+                socket.write(bulk(args[0]))
+                break
+            case 'BIG': {
+                // 大回复拆成很多小片分开发送
+                const reply = Buffer.from(bulk('x'.repeat(Number(args[0]))))
+                for (let offset = 0; offset < reply.length; offset += 1000) {
+                    const piece = reply.subarray(offset, offset + 1000)
+                    setTimeout(() => socket.write(piece), 0)
+                }
+                break
+            }
+            case 'GARBLE':
+                socket.write('?not resp\r\n')
+                break
+            case 'SET':
+                this.values.set(args[0], args[1])
+                socket.write('+OK\r\n')
+                break
+            case 'MGET':
+                socket.write(array(args.map(key => this.values.get(key) ?? null)))
+                break
+            case 'DEL':
+                socket.write(`:${this.values.delete(args[0]) ? 1 : 0}\r\n`)
+                break
+            case 'SADD':
+                if (!this.sets.has(args[0])) {
+                    this.sets.set(args[0], new Set())
+                }
+                this.sets.get(args[0])!.add(args[1])
+                socket.write(':1\r\n')
+                break
+            case 'SREM':
+                socket.write(`:${this.sets.get(args[0])?.delete(args[1]) ? 1 : 0}\r\n`)
+                break
+            case 'SMEMBERS':
+                socket.write(array([...(this.sets.get(args[0]) ?? [])]))
+                break
+            case 'PUBLISH': {
+                const sockets = this.subscribers.get(args[0]) ?? new Set()
+                sockets.forEach(subscriber => subscriber.write(array(['message', args[0], args[1]])))
+                socket.write(`:${sockets.size}\r\n`)
+                break
+            }
+            case 'SUBSCRIBE':
+                args.forEach((channel, index) => {
+                    if (!this.subscribers.has(channel)) {
+                        this.subscribers.set(channel, new Set())
+                    }
+                    this.subscribers.get(channel)!.add(socket)
+                    socket.write(`*3\r\n${bulk('subscribe')}${bulk(channel)}:${index + 1}\r\n`)
+                })
+                break
+            case 'UNSUBSCRIBE':
+                args.forEach(channel => {
+                    this.subscribers.get(channel)?.delete(socket)
+                    socket.write(`*3\r\n${bulk('unsubscribe')}${bulk(channel)}:0\r\n`)
+                })
+                break
+            default:
+                socket.write(`-ERR unknown command '${name}'\r\n`)
+        }
+    }
+}
+
+// 等待异步的网络往返完成
+async function eventually<T>(check: () => Promise<T> | T, timeoutMs = 2000): Promise<T> {
+    const deadline = Date.now() + timeoutMs
+    for (;;) {
+        try {
+            return await check()
+        } catch (error) {
+            if (Date.now() > deadline) {
+                throw error
+            }
+            await new Promise(resolve => setTimeout(resolve, 10))
+        }
+    }
+}
+
+describe('RespClient', () => {
+    const standIn = new RespStandIn()
+    let url: string
+
+    before(async () => {
+        url = await standIn.listen()
+    })
+
+    after(() => standIn.close())
+
+    it('按发送顺序返回回复，错误回复会被拒绝', async () => {
+        const client = new RespClient(url)
+        try {
+            await eventually(() => client.command('ECHO', 'ready'))
+            const [first, second, failed] = await Promise.allSettled([
+                client.command('ECHO', 'a'),
+                client.command('ECHO', 'b'),
+                client.command('NOPE')
+            ])
+            assert.deepEqual(first, { status: 'fulfilled', value: 'a' })
+            assert.deepEqual(second, { status: 'fulfilled', value: 'b' })
+            assert.equal(failed.status, 'rejected')
+        } finally {
+            client.close()
+        }
+    })
+
+    it('分成多片到达的大回复可以完整解析', async () => {
+        const client = new RespClient(url)
+        try {
+            const value = await eventually(() => client.command('BIG', 200000))
+            assert.equal(typeof value === 'string' && value.length, 200000)
+            assert.equal(await client.command('ECHO', 'after'), 'after')
+        } finally {
+            client.close()
+        }
+    })
+
+    it('无法解析的回复使等待中的命令失败，并重新连接', async () => {
+        const client = new RespClient(url, { reconnectDelayMs: 10 })
+        try {
+            await eventually(() => client.command('ECHO', 'ready'))
+            const results = await Promise.allSettled([
+                client.command('ECHO', 'before'),
+                client.command('GARBLE'),
+                client.command('ECHO', 'queued')
+            ])
+            assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'rejected'])
+
+            const value = await eventually(() => client.command('ECHO', 'reconnected'))
+            assert.equal(value, 'reconnected')
+        } finally {
+            client.close()
+        }
+    })
+
+    it('订阅消息的处理函数出错不影响后续消息', async () => {
+        const received: string[] = []
+        const subscriber = new RespClient(url, {
+            onMessage: (channel, payload) => {
+                received.push(payload)
+                if (payload === 'first') {
+                    throw new Error('handler failed')
+                }
+            }
+        })
+        const publisher = new RespClient(url)
+        try {
+            subscriber.subscribe('events')
+            await eventually(async () => {
+                assert.equal(await publisher.command('PUBLISH', 'events', 'first'), 1)
+            })
+            await publisher.command('PUBLISH', 'events', 'second')
+            await eventually(() => assert.deepEqual(received.slice(-2), ['first', 'second']))
+        } finally {
+            subscriber.close()
+            publisher.close()
+        }
+    })
+})
+
+describe('RedisRoomAdapter', () => {
+    const standIn = new RespStandIn()
+    let url: string
+
+    before(async () => {
+        url = await standIn.listen()
+    })
+
+    after(() => standIn.close())
+
+    function createInstance() {
+        const delivered: [string, RoomEnvelope, boolean][] = []
+        const controls: [RoomControl, boolean][] = []
+        const adapter = new RedisRoomAdapter(
+            url,
+            (roomId, envelope, remote) => delivered.push([roomId, envelope, remote]),
+            (control, remote) => controls.push([control, remote]),
+            'spec'
+        )
+        return { adapter, delivered, controls }
+    }
+
+    it('在线成员合并所有实例上报的列表，实例清空后移除', async () => {
+        const a = createInstance()
+        const b = createInstance()
+        try {
+            await eventually(() => a.adapter.syncPresence('ROOM01', [{ userId: 'alice', userName: 'Alice', role: 'owner' }]))
+            await eventually(() => b.adapter.syncPresence('ROOM01', [{ userId: 'bob', userName: 'Bob', role: 'editor' }]))
+
+            const users = await b.adapter.getPresence('ROOM01')
+            assert.deepEqual(users.map(user => user.userId).sort(), ['alice', 'bob'])
+
+            await a.adapter.syncPresence('ROOM01', [])
+            assert.deepEqual((await b.adapter.getPresence('ROOM01')).map(user => user.userId), ['bob'])
+        } finally {
+            await a.adapter.close()
+            await b.adapter.close()
+        }
+    })
+
+    it('广播投递给所有有该房间连接的实例，每个实例只收到一次', async () => {
+        const a = createInstance()
+        const b = createInstance()
+        const c = createInstance()
+        try {
+            await eventually(() => a.adapter.syncPresence('ROOM02', [{ userId: 'alice', userName: 'Alice', role: 'owner' }]))
+            await eventually(() => b.adapter.syncPresence('ROOM02', [{ userId: 'bob', userName: 'Bob', role: 'editor' }]))
+
+            // 等 b 的订阅生效
+            await eventually(async () => {
+                await a.adapter.publish('ROOM02', { message: { type: 'heartbeat_ack', timestamp: 0 } })
+                assert.ok(b.delivered.length > 0)
+            })
+
+            a.delivered.length = 0
+            b.delivered.length = 0
+            await a.adapter.publish('ROOM02', { message: { type: 'heartbeat_ack', timestamp: 1 }, excludeUserId: 'alice' })
+
+            await eventually(() => assert.equal(b.delivered.length, 1))
+            assert.deepEqual(b.delivered[0], ['ROOM02', { message: { type: 'heartbeat_ack', timestamp: 1 }, excludeUserId: 'alice' }, true])
+            // 本实例直接投递，不经过频道
+            assert.deepEqual(a.delivered.map(([, , remote]) => remote), [false])
+            // 没有该房间连接的实例不订阅
+            assert.equal(c.delivered.length, 0)
+        } finally {
+            await a.adapter.close()
+            await b.adapter.close()
+            await c.adapter.close()
+        }
+    })
+
+    it('控制消息在所有实例上各执行一次，不需要该房间的连接', async () => {
+        const a = createInstance()
+        const b = createInstance()
+        try {
+            const control: RoomControl = { action: 'set_muted', roomId: 'ROOM03', userId: 'bob', muted: true }
+            // 等两个实例的控制频道订阅生效
+            await eventually(async () => {
+                await a.adapter.control(control)
+                assert.ok(b.controls.length > 0)
+            })
+
+            a.controls.length = 0
+            b.controls.length = 0
+            await b.adapter.control({ action: 'revoke_sessions', sessionIds: ['session-1'] })
+
+            await eventually(() => assert.equal(a.controls.length, 1))
+            assert.deepEqual(a.controls, [[{ action: 'revoke_sessions', sessionIds: ['session-1'] }, true]])
+            assert.deepEqual(b.controls, [[{ action: 'revoke_sessions', sessionIds: ['session-1'] }, false]])
+        } finally {
+            await a.adapter.close()
+            await b.adapter.close()
+        }
+    })
+})
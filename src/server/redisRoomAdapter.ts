@@ -0,0 +1,171 @@
+import crypto from 'crypto'
+import { RespClient } from '../utils/resp'
+import { RoomUser } from '../protocol'
+import { ROOM_PRESENCE_TTL } from '../constants'
+import type { RoomAdapter, RoomEnvelope, RoomDeliver, RoomControl, RoomControlHandler } from './roomAdapter'
+
+interface PublishedEnvelope extends RoomEnvelope {
+    instanceId: string
+}
+
+interface PublishedControl {
+    control: RoomControl
+    instanceId: string
+}
+
+// 通过 Redis 协议在多个实例之间广播房间消息：
+// - 每个房间一个频道 <prefix>:room:<roomId>，实例只订阅自己有连接的房间
+// - 改动连接的控制消息走 <prefix>:control，所有实例都订阅
+// - 每个实例把自己的在线成员写入 <prefix>:presence:<roomId>:<instanceId>，带过期时间，
+//   实例异常退出后其成员会自动过期，<prefix>:presence:<roomId> 集合记录有哪些实例
+export class RedisRoomAdapter implements RoomAdapter {
+    readonly name = 'redis'
+    private readonly instanceId = crypto.randomUUID()
+    private readonly commands: RespClient
+    private readonly subscriber: RespClient
+    private readonly localPresence = new Map<string, RoomUser[]>()
+    private readonly refreshTimer: NodeJS.Timeout
+
+    constructor(
+        url: string,
+        private readonly deliver: RoomDeliver,
+        private readonly applyControl: RoomControlHandler,
+        private readonly prefix: string
+    ) {
+        this.commands = new RespClient(url)
+        this.subscriber = new RespClient(url, {
+            onMessage: (channel, payload) => channel === this.controlChannel()
+                ? this.onControl(payload)
+                : this.onMessage(channel, payload)
+        })
+        this.subscriber.subscribe(this.controlChannel())
+        this.refreshTimer = setInterval(() => this.refreshPresence(), ROOM_PRESENCE_TTL * 1000 / 3)
+        this.refreshTimer.unref()
+    }
+
+    async publish(roomId: string, envelope: RoomEnvelope): Promise<void> {
+        // 本实例的连接直接投递，其他实例从频道收到
+        this.deliver(roomId, envelope, false)
+        const published: PublishedEnvelope = { ...envelope, instanceId: this.instanceId }
+        await this.commands.command('PUBLISH', this.channel(roomId), JSON.stringify(published))
+    }
+
+    async syncPresence(roomId: string, users: RoomUser[]): Promise<void> {
+        const key = this.presenceKey(roomId)
+
+        if (users.length === 0) {
+            if (this.localPresence.delete(roomId)) {
+                this.subscriber.unsubscribe(this.channel(roomId))
+            }
+            await this.commands.command('DEL', `${key}:${this.instanceId}`)
+            await this.commands.command('SREM', key, this.instanceId)
+            return
+        }
+
+        if (!this.localPresence.has(roomId)) {
+            this.subscriber.subscribe(this.channel(roomId))
+        }
+        this.localPresence.set(roomId, users)
+        await this.writePresence(roomId, users)
+    }
+
+    async getPresence(roomId: string): Promise<RoomUser[]> {
+        const key = this.presenceKey(roomId)
+        const instances = await this.commands.command('SMEMBERS', key)
+        if (!Array.isArray(instances) || instances.length === 0) {
+            return []
+        }
+
+        const lists = await this.commands.command('MGET', ...instances.map(id => `${key}:${id}`))
+        const users = new Map<string, RoomUser>()
+        if (Array.isArray(lists)) {
+            for (let i = 0; i < lists.length; i++) {
+                const raw = lists[i]
+                if (typeof raw !== 'string') {
+                    // 成员列表已过期，说明该实例已下线
+                    await this.commands.command('SREM', key, String(instances[i]))
+                    continue
+                }
+                for (const user of JSON.parse(raw) as RoomUser[]) {
+                    users.set(user.userId, user)
+                }
+            }
+        }
+        return [...users.values()]
+    }
+
+    async control(control: RoomControl): Promise<void> {
+        this.applyControl(control, false)
+        const published: PublishedControl = { control, instanceId: this.instanceId }
+        await this.commands.command('PUBLISH', this.controlChannel(), JSON.stringify(published))
+    }
+
+    async close(): Promise<void> {
+        clearInterval(this.refreshTimer)
+        for (const roomId of [...this.localPresence.keys()]) {
+            await this.syncPresence(roomId, [])
+        }
+        this.subscriber.close()
+        this.commands.close()
+    }
+
+    private channel(roomId: string) {
+        return `${this.prefix}:room:${roomId}`
+    }
+
+    private controlChannel() {
+        return `${this.prefix}:control`
+    }
+
+    private presenceKey(roomId: string) {
+        return `${this.prefix}:presence:${roomId}`
+    }
+
+    private async writePresence(roomId: string, users: RoomUser[]) {
+        const key = this.presenceKey(roomId)
+        await this.commands.command('SET', `${key}:${this.instanceId}`, JSON.stringify(users), 'EX', ROOM_PRESENCE_TTL)
+        await this.commands.command('SADD', key, this.instanceId)
+    }
+
+    // 定期续期，Redis 断线重连后也会由这里重新写入
+    private async refreshPresence() {
+        for (const [roomId, users] of this.localPresence) {
+            try {
+                await this.writePresence(roomId, users)
+            } catch (error) {
+                console.error(`刷新房间 ${roomId} 在线成员失败:`, error)
+            }
+        }
+    }
+
+    private onMessage(channel: string, payload: string) {
+        const roomId = channel.slice(this.channel('').length)
+        let envelope: PublishedEnvelope
+        try {
+            envelope = JSON.parse(payload)
+        } catch (error) {
+            console.error(`无法解析房间 ${roomId} 的广播消息`)
+            return
+        }
+
+        if (envelope.instanceId === this.instanceId) {
+            return
+        }
+        this.deliver(roomId, { message: envelope.message, excludeUserId: envelope.excludeUserId }, true)
+    }
+
+    private onControl(payload: string) {
+        let published: PublishedControl
+        try {
+            published = JSON.parse(payload)
+        } catch (error) {
+            console.error('无法解析房间控制消息')
+            return
+        }
+
+        if (published.instanceId === this.instanceId) {
+            return
+        }
+        this.applyControl(published.control, true)
+    }
+}
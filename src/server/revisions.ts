@@ -0,0 +1,373 @@
+import prisma from '../lib/prisma'
+import { Request, Response, Express } from 'express'
+import { verifyToken } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { responseMessage } from '../utils/messages'
+import { parsePagination, paginationMeta } from '../utils/pagination'
+import { object, string, number, validateBody, Infer } from '../utils/validation'
+import { broadcastToRoom, sendRoomControl, clients } from '../index'
+import { MAX_ROOM_REVISIONS } from '../constants'
+import { Prisma } from '@prisma/client'
+import {
+    getRoomDocument,
+    replaceDocument,
+    flushRoomDocument,
+    dropRoomDocument,
+    parseElements,
+    parseSnapshot,
+    parseLayerOrder,
+    RoomElement
+} from './roomState'
+
+const restoreRevisionSchema = object({
+    roomId: string({ max: 191 }),
+    version: number({ integer: true, min: 1 })
+})
+
+type RestoreRevisionRequestBody = Infer<typeof restoreRevisionSchema>
+
+const MAX_REVISION_ATTEMPTS = 3
+
+interface CreateRevisionInput {
+    data: string
+    layerOrder: string | null
+    authorId: string | null
+    label?: string | null
+    restoredFrom?: number | null
+}
+
+// 与上一个版本逐元素比较，得到新增/删除/修改的数量；任一版本无法解析时返回 null
+function diffElements(previous: RoomElement[] | null, current: RoomElement[] | null) {
+    if (!current) {
+        return { elementCount: null, addedCount: null, removedCount: null, changedCount: null }
+    }
+    if (!previous) {
+        return { elementCount: current.length, addedCount: null, removedCount: null, changedCount: null }
+    }
+
+    const before = new Map(previous.map(element => [element.id, JSON.stringify(element)]))
+    let addedCount = 0
+    let changedCount = 0
+
+    for (const element of current) {
+        const old = before.get(element.id)
+        if (old === undefined) {
+            addedCount++
+        } else {
+            if (old !== JSON.stringify(element)) {
+                changedCount++
+            }
+            before.delete(element.id)
+        }
+    }
+
+    return {
+        elementCount: current.length,
+        addedCount,
+        removedCount: before.size,
+        changedCount
+    }
+}
+
+// 读取上一个版本号和写入新版本在同一事务中完成
+function insertRevision(roomId: string, input: CreateRevisionInput) {
+    return prisma.$transaction(async tx => {
+        const previous = await tx.roomRevision.findFirst({
+            where: { roomId },
+            orderBy: { version: 'desc' }
+        })
+
+        const diff = diffElements(
+            previous ? parseElements(previous.data) : [],
+            parseElements(input.data)
+        )
+
+        return tx.roomRevision.create({
+            data: {
+                roomId,
+                version: previous ? previous.version + 1 : 1,
+                authorId: input.authorId,
+                label: input.label || null,
+                data: input.data,
+                layerOrder: input.layerOrder,
+                size: Buffer.byteLength(input.data, 'utf8'),
+                restoredFrom: input.restoredFrom ?? null,
+                ...diff
+            }
+        })
+    })
+}
+
+function isVersionConflict(error: unknown) {
+    return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+}
+
+// 并发保存时两个事务可能读到同一个版本号，唯一约束冲突后重新读取再写入
+async function insertRevisionWithRetry(roomId: string, input: CreateRevisionInput) {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await insertRevision(roomId, input)
+        } catch (error) {
+            if (!isVersionConflict(error) || attempt >= MAX_REVISION_ATTEMPTS) {
+                throw error
+            }
+        }
+    }
+}
+
+export async function createRevision(roomId: string, input: CreateRevisionInput) {
+    const revision = await insertRevisionWithRetry(roomId, input)
+
+    // 只保留最近的若干个版本
+    const stale = await prisma.roomRevision.findMany({
+        where: { roomId },
+        orderBy: { version: 'desc' },
+        skip: MAX_ROOM_REVISIONS,
+        select: { id: true }
+    })
+    if (stale.length > 0) {
+        await prisma.roomRevision.deleteMany({
+            where: { id: { in: stale.map(item => item.id) } }
+        })
+    }
+
+    return revision
+}
+
+function serializeRevisionMeta(revision: {
+    version: number
+    label: string | null
+    size: number
+    elementCount: number | null
+    addedCount: number | null
+    removedCount: number | null
+    changedCount: number | null
+    restoredFrom: number | null
+    createdAt: Date
+    author: { id: string, name: string } | null
+}) {
+    return {
+        version: revision.version,
+        label: revision.label,
+        size: revision.size,
+        elementCount: revision.elementCount,
+        diff: {
+            added: revision.addedCount,
+            removed: revision.removedCount,
+            changed: revision.changedCount
+        },
+        restoredFrom: revision.restoredFrom,
+        author: revision.author,
+        createdAt: revision.createdAt
+    }
+}
+
+async function findMemberRoom(roomId: string, userId: string) {
+    const room = await prisma.room.findUnique({ where: { roomId } })
+    if (!room) {
+        return null
+    }
+
+    const member = await prisma.roomMember.findUnique({
+        where: {
+            roomId_userId: {
+                roomId: room.id,
+                userId
+            }
+        }
+    })
+
+    return member ? room : null
+}
+
+export function setupRevisionRoutes(app: Express) {
+    app.get('/api/rooms/:roomId/revisions', async (req: Request<{ roomId: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const room = await findMemberRoom(req.params.roomId, payload.userId)
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            const pagination = parsePagination(req.query)
+            const where = { roomId: room.id }
+
+            const [revisions, total] = await Promise.all([
+                prisma.roomRevision.findMany({
+                    where,
+                    orderBy: { version: 'desc' },
+                    skip: pagination.skip,
+                    take: pagination.take,
+                    include: {
+                        author: { select: { id: true, name: true } }
+                    }
+                }),
+                prisma.roomRevision.count({ where })
+            ])
+
+            res.json({
+                success: true,
+                revisions: revisions.map(serializeRevisionMeta),
+                pagination: paginationMeta(pagination, total)
+            })
+        } catch (error) {
+            console.error('获取历史版本错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/rooms/:roomId/revisions/:version', async (req: Request<{ roomId: string, version: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const version = parseInt(req.params.version, 10)
+            if (!Number.isInteger(version)) {
+                return sendError(res, 'invalid_version')
+            }
+
+            const room = await findMemberRoom(req.params.roomId, payload.userId)
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            const revision = await prisma.roomRevision.findUnique({
+                where: {
+                    roomId_version: {
+                        roomId: room.id,
+                        version
+                    }
+                },
+                include: {
+                    author: { select: { id: true, name: true } }
+                }
+            })
+
+            if (!revision) {
+                return sendError(res, 'version_not_found')
+            }
+
+            res.json({
+                success: true,
+                revision: {
+                    ...serializeRevisionMeta(revision),
+                    data: revision.data,
+                    layerOrder: parseLayerOrder(revision.layerOrder) ?? null
+                }
+            })
+        } catch (error) {
+            console.error('获取历史版本错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/rooms/revisions/restore', validateBody(restoreRevisionSchema), async (req: Request<{}, {}, RestoreRevisionRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { roomId, version } = req.body
+
+            const room = await prisma.room.findUnique({
+                where: { roomId }
+            })
+
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            if (room.ownerId !== payload.userId) {
+                return sendError(res, 'owner_only')
+            }
+
+            const revision = await prisma.roomRevision.findUnique({
+                where: {
+                    roomId_version: {
+                        roomId: room.id,
+                        version
+                    }
+                }
+            })
+
+            if (!revision) {
+                return sendError(res, 'version_not_found')
+            }
+
+            const layerOrder = parseLayerOrder(revision.layerOrder) ?? null
+            const snapshot = parseSnapshot(revision.data)
+
+            if (snapshot) {
+                const document = await getRoomDocument(room.roomId)
+                replaceDocument(document, snapshot.elements, layerOrder, snapshot.extra)
+                await flushRoomDocument(room.roomId)
+                // 与导入相同：无本地连接时不保留缓存，否则会错过其他实例上的改动
+                if (![...clients.values()].some(client => client.roomId === room.roomId)) {
+                    dropRoomDocument(room.roomId)
+                }
+            } else {
+                await prisma.roomSnapshot.upsert({
+                    where: { roomId: room.id },
+                    update: { data: revision.data, layerOrder: revision.layerOrder },
+                    create: { roomId: room.id, data: revision.data, layerOrder: revision.layerOrder }
+                })
+                dropRoomDocument(room.roomId)
+            }
+            sendRoomControl({ action: 'reload_document', roomId: room.roomId })
+
+            const restored = await createRevision(room.id, {
+                data: revision.data,
+                layerOrder: revision.layerOrder,
+                authorId: payload.userId,
+                label: revision.label,
+                restoredFrom: revision.version
+            })
+
+            broadcastToRoom(room.roomId, {
+                type: 'snapshot_restored',
+                data: revision.data,
+                layerOrder,
+                revision: restored.version,
+                restoredFrom: revision.version
+            })
+            console.log(`房主 ${payload.userId} 将房间 ${room.roomId} 恢复到版本 ${revision.version}`)
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'revision_restored'),
+                revision: {
+                    version: restored.version,
+                    restoredFrom: revision.version
+                }
+            })
+        } catch (error) {
+            console.error('恢复历史版本错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
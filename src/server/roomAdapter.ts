@@ -0,0 +1,83 @@
+import { ServerMessage, RoomUser } from '../protocol'
+import type { RoomRole } from './permissions'
+import { RedisRoomAdapter } from './redisRoomAdapter'
+
+export interface RoomEnvelope {
+    message: ServerMessage
+    excludeUserId?: string
+}
+
+// 把消息投递给本实例上该房间的连接，remote 表示消息来自其他实例
+export type RoomDeliver = (roomId: string, envelope: RoomEnvelope, remote: boolean) => void
+
+// 需要改动连接本身的操作，每个实例只处理自己持有的连接
+export type RoomControl =
+    | { action: 'set_role', roomId: string, userId: string, role: RoomRole }
+    | { action: 'set_muted', roomId: string, userId: string, muted: boolean }
+    | { action: 'disconnect', roomId: string, userId: string, notification: ServerMessage }
+    | { action: 'revoke_sessions', sessionIds: string[] }
+    // 房间状态被整体替换并已落盘，其他实例需要丢弃内存中的旧状态
+    | { action: 'reload_document', roomId: string }
+
+export type RoomControlHandler = (control: RoomControl, remote: boolean) => void
+
+// 房间广播和在线成员的存储接口。单实例部署使用内存实现，多实例部署时各实例通过共享的实现互通
+export interface RoomAdapter {
+    name: string
+    // 投递给所有实例上该房间的连接
+    publish(roomId: string, envelope: RoomEnvelope): Promise<void>
+    // 用本实例当前的在线成员覆盖之前上报的列表，空列表表示本实例已没有该房间的连接
+    syncPresence(roomId: string, users: RoomUser[]): Promise<void>
+    // 所有实例上该房间的在线成员
+    getPresence(roomId: string): Promise<RoomUser[]>
+    // 在所有实例上执行，包括本实例
+    control(control: RoomControl): Promise<void>
+    close(): Promise<void>
+}
+
+export class MemoryRoomAdapter implements RoomAdapter {
+    readonly name = 'memory'
+    private presence = new Map<string, RoomUser[]>()
+
+    constructor(private readonly deliver: RoomDeliver, private readonly applyControl: RoomControlHandler) {}
+
+    async publish(roomId: string, envelope: RoomEnvelope): Promise<void> {
+        this.deliver(roomId, envelope, false)
+    }
+
+    async syncPresence(roomId: string, users: RoomUser[]): Promise<void> {
+        if (users.length > 0) {
+            this.presence.set(roomId, users)
+        } else {
+            this.presence.delete(roomId)
+        }
+    }
+
+    async getPresence(roomId: string): Promise<RoomUser[]> {
+        return this.presence.get(roomId) ?? []
+    }
+
+    async control(control: RoomControl): Promise<void> {
+        this.applyControl(control, false)
+    }
+
+    async close(): Promise<void> {
+        this.presence.clear()
+    }
+}
+
+// ROOM_ADAPTER 可选 memory / redis，未配置时有 REDIS_URL 就用 redis，否则使用内存实现
+export function createRoomAdapter(deliver: RoomDeliver, applyControl: RoomControlHandler): RoomAdapter {
+    const kind = process.env.ROOM_ADAPTER || (process.env.REDIS_URL ? 'redis' : 'memory')
+
+    if (kind === 'redis') {
+        return new RedisRoomAdapter(
+            process.env.REDIS_URL || 'redis://127.0.0.1:6379',
+            deliver,
+            applyControl,
+            process.env.REDIS_KEY_PREFIX || 'infinitec'
+        )
+    }
+
+    return new MemoryRoomAdapter(deliver, applyControl)
+}
@@ -0,0 +1,133 @@
+import prisma from '../lib/prisma'
+import { Request, Response, Express } from 'express'
+import { verifyToken } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { clients } from '../index'
+import { ROOM_METRICS_WINDOW } from '../constants'
+import { normalizeRole, hasRole } from './permissions'
+
+export interface RoomThroughput {
+    // 收到的绘画事件数
+    eventsIn: number
+    // 合并后实际下发的绘画事件数
+    eventsOut: number
+    batches: number
+    bytesSent: number
+    // 因连接积压被丢弃的批次数
+    droppedBatches: number
+    resyncs: number
+}
+
+interface RoomMetrics {
+    since: number
+    total: RoomThroughput
+    current: RoomThroughput
+    lastWindow: RoomThroughput
+}
+
+// 以房间号为键，统计的是本实例上的流量
+const metrics = new Map<string, RoomMetrics>()
+
+function emptyThroughput(): RoomThroughput {
+    return { eventsIn: 0, eventsOut: 0, batches: 0, bytesSent: 0, droppedBatches: 0, resyncs: 0 }
+}
+
+export function recordRoomMetric(roomId: string, field: keyof RoomThroughput, amount = 1) {
+    let room = metrics.get(roomId)
+    if (!room) {
+        room = { since: Date.now(), total: emptyThroughput(), current: emptyThroughput(), lastWindow: emptyThroughput() }
+        metrics.set(roomId, room)
+    }
+    room.total[field] += amount
+    room.current[field] += amount
+}
+
+export function getRoomThroughput(roomId: string) {
+    const room = metrics.get(roomId)
+    if (!room) {
+        return null
+    }
+
+    const perSecond = emptyThroughput()
+    for (const field of Object.keys(perSecond) as (keyof RoomThroughput)[]) {
+        perSecond[field] = Math.round(room.lastWindow[field] / ROOM_METRICS_WINDOW * 100) / 100
+    }
+
+    return {
+        since: new Date(room.since),
+        total: { ...room.total },
+        perSecond,
+        // 合并掉的事件占比，越高说明合并越有效
+        coalesceRatio: room.total.eventsIn > 0 ? 1 - room.total.eventsOut / room.total.eventsIn : 0
+    }
+}
+
+function isIdle(throughput: RoomThroughput) {
+    return Object.values(throughput).every(value => value === 0)
+}
+
+// 每个窗口结束时滚动计数，已无人在线且一个窗口内没有流量的房间不再保留
+const windowTimer = setInterval(() => {
+    for (const [roomId, room] of metrics) {
+        room.lastWindow = room.current
+        room.current = emptyThroughput()
+
+        const connected = [...clients.values()].some(client => client.roomId === roomId)
+        if (!connected && isIdle(room.lastWindow)) {
+            metrics.delete(roomId)
+        }
+    }
+}, ROOM_METRICS_WINDOW * 1000)
+windowTimer.unref()
+
+export function setupRoomMetricsRoutes(app: Express) {
+    // 房主和协管员可以查看房间的实时吞吐，用于排查大房间卡顿
+    app.get('/api/rooms/:roomId/metrics', async (req: Request<{ roomId: string }>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const room = await prisma.room.findUnique({ where: { roomId: req.params.roomId } })
+            if (!room) {
+                return sendError(res, 'room_not_found')
+            }
+
+            const member = await prisma.roomMember.findUnique({
+                where: {
+                    roomId_userId: {
+                        roomId: room.id,
+                        userId: payload.userId
+                    }
+                }
+            })
+            if (!member) {
+                return sendError(res, 'not_a_member')
+            }
+
+            const role = room.ownerId === payload.userId ? 'owner' : normalizeRole(member.role)
+            if (!hasRole(role, 'moderator')) {
+                return sendError(res, 'moderator_only')
+            }
+
+            const connections = [...clients.values()].filter(client => client.roomId === room.roomId).length
+
+            res.json({
+                success: true,
+                roomId: room.roomId,
+                connections,
+                throughput: getRoomThroughput(room.roomId)
+            })
+        } catch (error) {
+            console.error('获取房间吞吐统计错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
@@ -0,0 +1,153 @@
+import { describe, it, afterEach, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import prisma from '../lib/prisma'
+import {
+    parseSnapshot,
+    parseLayerOrder,
+    isDrawOperation,
+    applyDrawOperation,
+    replaceDocument,
+    serializeDocument,
+    getRoomDocument,
+    dropRoomDocument,
+    RoomDocument
+} from './roomState'
+
+function emptyDocument(): RoomDocument {
+    return { roomId: 'ROOM01', elements: new Map(), layerOrder: null, extra: null, version: 0, dirty: false }
+}
+
+// Prisma 的模型对象是代理，mock.method 取不到其中的方法，直接替换并在测试后还原
+const findRoom = prisma.room.findUnique
+
+// 模拟数据库中房间和快照的查询结果
+function mockStoredSnapshot(data: string, layerOrder: string | null) {
+    prisma.room.findUnique = (async () => ({ snapshot: { data, layerOrder } })) as unknown as typeof findRoom
+}
+
+describe('parseSnapshot', () => {
+    it('元素数组和带 elements 字段的对象都能解析，缺少 id 的元素被丢弃', () => {
+        assert.deepEqual(parseSnapshot('[{"id":"a"},{"x":1}]'), { elements: [{ id: 'a' }], extra: null })
+        assert.deepEqual(
+            parseSnapshot('{"background":"#fff","elements":[{"id":"a"}]}'),
+            { elements: [{ id: 'a' }], extra: { background: '#fff' } }
+        )
+    })
+
+    it('无法解析或结构不对时返回 null', () => {
+        assert.equal(parseSnapshot('{'), null)
+        assert.equal(parseSnapshot('42'), null)
+        assert.equal(parseSnapshot('{"elements":"a"}'), null)
+    })
+})
+
+describe('parseLayerOrder', () => {
+    it('未设置返回 null，无法解析返回 undefined', () => {
+        assert.equal(parseLayerOrder(null), null)
+        assert.deepEqual(parseLayerOrder('["b","a"]'), ['b', 'a'])
+        assert.equal(parseLayerOrder('["b",'), undefined)
+    })
+})
+
+describe('isDrawOperation', () => {
+    it('只接受带元素ID的操作', () => {
+        assert.equal(isDrawOperation({ action: 'add', element: { id: 'a' } }), true)
+        assert.equal(isDrawOperation({ action: 'update', element: { id: 'a', color: 'red' } }), true)
+        assert.equal(isDrawOperation({ action: 'delete', elementId: 'a' }), true)
+        assert.equal(isDrawOperation({ action: 'delete', elementIds: ['a', 'b'] }), true)
+        assert.equal(isDrawOperation({ action: 'clear' }), true)
+
+        assert.equal(isDrawOperation({ action: 'add', element: { color: 'red' } }), false)
+        assert.equal(isDrawOperation({ action: 'delete', elementIds: ['a', 1] }), false)
+        assert.equal(isDrawOperation({ action: 'draw', points: [] }), false)
+        assert.equal(isDrawOperation(null), false)
+    })
+})
+
+describe('applyDrawOperation', () => {
+    it('新增、合并更新、删除和清空都会标记为需要落盘', () => {
+        const document = emptyDocument()
+
+        assert.equal(applyDrawOperation(document, { action: 'add', element: { id: 'a', color: 'red', width: 1 } }), true)
+        assert.equal(applyDrawOperation(document, { action: 'add', element: { id: 'b' } }), true)
+        assert.equal(applyDrawOperation(document, { action: 'update', element: { id: 'a', width: 3 } }), true)
+        assert.deepEqual(document.elements.get('a'), { id: 'a', color: 'red', width: 3 })
+        assert.equal(document.dirty, true)
+
+        assert.equal(applyDrawOperation(document, { action: 'delete', elementIds: ['a', 'missing'] }), true)
+        assert.deepEqual([...document.elements.keys()], ['b'])
+
+        assert.equal(applyDrawOperation(document, { action: 'clear' }), true)
+        assert.equal(document.elements.size, 0)
+        assert.equal(document.version, 5)
+    })
+
+    it('更新或删除不存在的元素时不改动状态', () => {
+        const document = emptyDocument()
+
+        assert.equal(applyDrawOperation(document, { action: 'update', element: { id: 'a' } }), false)
+        assert.equal(applyDrawOperation(document, { action: 'delete', elementId: 'a' }), false)
+        assert.equal(document.version, 0)
+        assert.equal(document.dirty, false)
+    })
+})
+
+describe('serializeDocument', () => {
+    it('快照中的其他字段原样保留', () => {
+        const raw = '{"background":"#fff","grid":{"size":10},"elements":[{"id":"a","x":1}]}'
+        const snapshot = parseSnapshot(raw)!
+        const document = emptyDocument()
+        replaceDocument(document, snapshot.elements, ['a'], snapshot.extra)
+
+        const serialized = serializeDocument(document)
+        assert.deepEqual(JSON.parse(serialized.data), JSON.parse(raw))
+        assert.deepEqual(serialized.layerOrder, ['a'])
+        assert.equal(serialized.version, 1)
+    })
+
+    it('没有其他字段时保存为元素数组', () => {
+        const document = emptyDocument()
+        replaceDocument(document, [{ id: 'a' }], null)
+
+        assert.equal(serializeDocument(document).data, '[{"id":"a"}]')
+    })
+})
+
+describe('getRoomDocument', () => {
+    afterEach(() => {
+        mock.restoreAll()
+        prisma.room.findUnique = findRoom
+        dropRoomDocument('ROOM01')
+    })
+
+    it('图层顺序无法解析时忽略，仍然加载元素', async () => {
+        mockStoredSnapshot('[{"id":"a"}]', '["a",')
+        mock.method(console, 'warn', () => {})
+
+        const document = await getRoomDocument('ROOM01')
+        assert.deepEqual([...document.elements.keys()], ['a'])
+        assert.equal(document.layerOrder, null)
+    })
+
+    it('加载期间被丢弃时重新加载，不缓存丢弃前读到的数据', async () => {
+        const stored = ['[{"id":"old"}]', '[{"id":"new"}]']
+        let release!: () => void
+        const firstQuery = new Promise<void>(resolve => { release = resolve })
+        prisma.room.findUnique = (async () => {
+            const data = stored.shift()!
+            if (data.includes('old')) {
+                await firstQuery
+            }
+            return { snapshot: { data, layerOrder: null } }
+        }) as unknown as typeof findRoom
+
+        const pending = getRoomDocument('ROOM01')
+        // 例如恢复历史版本后丢弃旧状态
+        dropRoomDocument('ROOM01')
+        release()
+
+        const document = await pending
+        assert.deepEqual([...document.elements.keys()], ['new'])
+        assert.equal(await getRoomDocument('ROOM01'), document)
+    })
+})
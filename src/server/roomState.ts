@@ -0,0 +1,279 @@
+import prisma from '../lib/prisma'
+import { ROOM_STATE_FLUSH_INTERVAL } from '../constants'
+
+export interface RoomElement {
+  id: string
+  [key: string]: unknown
+}
+
+export type DrawOperation =
+  | { action: 'add', element: RoomElement }
+  | { action: 'update', element: RoomElement }
+  | { action: 'delete', elementId?: string, elementIds?: string[] }
+  | { action: 'clear' }
+
+// 快照可以是元素数组，也可以是带 elements 字段的对象，后者的其他字段原样保留
+export type SnapshotExtra = Record<string, unknown>
+
+export interface RoomDocument {
+  roomId: string
+  elements: Map<string, RoomElement>
+  layerOrder: unknown | null
+  extra: SnapshotExtra | null
+  version: number
+  dirty: boolean
+}
+
+// 以房间号（6位 roomId）为键，保存服务端维护的房间画布状态
+const documents = new Map<string, RoomDocument>()
+const loading = new Map<string, Promise<RoomDocument>>()
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isElement(value: unknown): value is RoomElement {
+  return isRecord(value) && typeof value.id === 'string'
+}
+
+export function parseSnapshot(raw: string): { elements: RoomElement[], extra: SnapshotExtra | null } | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch (e) {
+    return null
+  }
+
+  if (Array.isArray(parsed)) {
+    return { elements: parsed.filter(isElement), extra: null }
+  }
+  if (isRecord(parsed) && Array.isArray(parsed.elements)) {
+    const { elements, ...extra } = parsed
+    return { elements: elements.filter(isElement), extra }
+  }
+  return null
+}
+
+// 图层顺序无法解析时按未设置处理，返回 undefined 以便调用方区分
+export function parseLayerOrder(raw: string | null): unknown | undefined {
+  if (!raw) {
+    return null
+  }
+  try {
+    return JSON.parse(raw)
+  } catch (e) {
+    return undefined
+  }
+}
+
+export function parseElements(raw: string): RoomElement[] | null {
+  return parseSnapshot(raw)?.elements ?? null
+}
+
+function createDocument(roomId: string, elements: RoomElement[] = [], layerOrder: unknown = null, extra: SnapshotExtra | null = null): RoomDocument {
+  return {
+    roomId,
+    elements: new Map(elements.map(element => [element.id, element])),
+    layerOrder,
+    extra,
+    version: 0,
+    dirty: false
+  }
+}
+
+async function loadDocument(roomId: string): Promise<RoomDocument> {
+  const room = await prisma.room.findUnique({
+    where: { roomId },
+    include: { snapshot: true }
+  })
+
+  if (!room || !room.snapshot) {
+    return createDocument(roomId)
+  }
+
+  const snapshot = parseSnapshot(room.snapshot.data)
+  if (!snapshot) {
+    console.warn(`房间 ${roomId} 的快照格式无法解析，使用空白画布`)
+  }
+  const layerOrder = parseLayerOrder(room.snapshot.layerOrder)
+  if (layerOrder === undefined) {
+    console.warn(`房间 ${roomId} 的图层顺序无法解析，已忽略`)
+  }
+
+  return createDocument(
+    roomId,
+    snapshot?.elements || [],
+    layerOrder ?? null,
+    snapshot?.extra ?? null
+  )
+}
+
+// 只读取房间状态：已加载的使用内存中的状态，否则直接读取已保存的快照，不加载到内存。
+// 没有连接的房间不能留在内存里，否则既无人释放，也收不到其他实例的修改
+export async function readRoomState(roomId: string) {
+  return serializeDocument(documents.get(roomId) ?? await loadDocument(roomId))
+}
+
+export async function getRoomDocument(roomId: string): Promise<RoomDocument> {
+  const existing = documents.get(roomId)
+  if (existing) {
+    return existing
+  }
+
+  let pending = loading.get(roomId)
+  if (!pending) {
+    const load: Promise<RoomDocument> = loadDocument(roomId)
+      .then(document => {
+        // 加载期间房间状态被丢弃（例如快照被替换），读到的可能是旧数据，重新加载
+        if (loading.get(roomId) !== load) {
+          return getRoomDocument(roomId)
+        }
+        // 加载期间可能已有其他请求写入，以先到者为准
+        const current = documents.get(roomId) || document
+        documents.set(roomId, current)
+        return current
+      })
+      .finally(() => {
+        if (loading.get(roomId) === load) {
+          loading.delete(roomId)
+        }
+      })
+    loading.set(roomId, load)
+    pending = load
+  }
+
+  return pending
+}
+
+export function isDrawOperation(value: unknown): value is DrawOperation {
+  if (!isRecord(value)) {
+    return false
+  }
+
+  switch (value.action) {
+    case 'add':
+    case 'update':
+      return isElement(value.element)
+    case 'delete':
+      return typeof value.elementId === 'string'
+        || (Array.isArray(value.elementIds) && value.elementIds.every(id => typeof id === 'string'))
+    case 'clear':
+      return true
+    default:
+      return false
+  }
+}
+
+export function applyDrawOperation(document: RoomDocument, operation: DrawOperation): boolean {
+  switch (operation.action) {
+    case 'add':
+      document.elements.set(operation.element.id, operation.element)
+      break
+    case 'update': {
+      const existing = document.elements.get(operation.element.id)
+      if (!existing) {
+        return false
+      }
+      document.elements.set(operation.element.id, { ...existing, ...operation.element })
+      break
+    }
+    case 'delete': {
+      const ids = operation.elementIds || [operation.elementId as string]
+      let removed = false
+      for (const id of ids) {
+        removed = document.elements.delete(id) || removed
+      }
+      if (!removed) {
+        return false
+      }
+      break
+    }
+    case 'clear':
+      document.elements.clear()
+      break
+  }
+
+  document.version++
+  document.dirty = true
+  return true
+}
+
+export function setLayerOrder(document: RoomDocument, layerOrder: unknown) {
+  document.layerOrder = layerOrder ?? null
+  document.version++
+  document.dirty = true
+}
+
+export function replaceDocument(document: RoomDocument, elements: RoomElement[], layerOrder: unknown, extra: SnapshotExtra | null = null) {
+  document.elements = new Map(elements.map(element => [element.id, element]))
+  document.layerOrder = layerOrder ?? null
+  document.extra = extra
+  document.version++
+  document.dirty = true
+}
+
+export function serializeDocument(document: RoomDocument) {
+  return {
+    data: JSON.stringify(document.extra
+      ? { ...document.extra, elements: Array.from(document.elements.values()) }
+      : Array.from(document.elements.values())),
+    layerOrder: document.layerOrder,
+    version: document.version
+  }
+}
+
+export async function flushRoomDocument(roomId: string) {
+  const document = documents.get(roomId)
+  if (!document || !document.dirty) {
+    return
+  }
+
+  const room = await prisma.room.findUnique({ where: { roomId } })
+  if (!room) {
+    documents.delete(roomId)
+    return
+  }
+
+  const { data, layerOrder } = serializeDocument(document)
+  const serializedLayerOrder = layerOrder ? JSON.stringify(layerOrder) : null
+  document.dirty = false
+
+  try {
+    await prisma.roomSnapshot.upsert({
+      where: { roomId: room.id },
+      update: { data, layerOrder: serializedLayerOrder },
+      create: { roomId: room.id, data, layerOrder: serializedLayerOrder }
+    })
+  } catch (e) {
+    document.dirty = true
+    throw e
+  }
+}
+
+// 同步其他实例上发生的修改，只更新已加载的房间状态，落盘由发起修改的实例负责
+export function applyRemoteChange(roomId: string, change: (document: RoomDocument) => void) {
+  const document = documents.get(roomId)
+  if (!document) {
+    return
+  }
+  const dirty = document.dirty
+  change(document)
+  document.dirty = dirty
+}
+
+// 同时作废正在进行的加载，避免把丢弃前读到的数据缓存下来
+export function dropRoomDocument(roomId: string) {
+  documents.delete(roomId)
+  loading.delete(roomId)
+}
+
+const flushTimer = setInterval(async () => {
+  for (const roomId of documents.keys()) {
+    try {
+      await flushRoomDocument(roomId)
+    } catch (e) {
+      console.error(`保存房间 ${roomId} 状态失败:`, e)
+    }
+  }
+}, ROOM_STATE_FLUSH_INTERVAL * 1000)
+flushTimer.unref()
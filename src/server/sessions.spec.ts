@@ -0,0 +1,214 @@
+import { describe, it, before, after, beforeEach } from 'node:test'
+import assert from 'node:assert/strict'
+import express, { Request } from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import { User } from '@prisma/client'
+import prisma from '../lib/prisma'
+import { setRateLimitStore, MemoryRateLimitStore } from '../utils/rateLimit'
+import { setupSessionRoutes, sessionGuard, createSession, revokeSessions, setSessionRevocationHandler } from './sessions'
+
+interface SessionRow {
+    id: string
+    userId: string
+    refreshTokenHash: string
+    previousTokenHash: string | null
+    revokedAt: Date | null
+    expiresAt: Date
+    user: User
+}
+
+type Where = Record<string, unknown>
+
+interface ResponseBody {
+    code?: string
+    refreshToken?: string
+    userId?: string | null
+}
+
+const user: User = {
+    id: 'user-1',
+    name: 'Alice',
+    phone: '13800000000',
+    email: 'alice@example.com',
+    password: '',
+    isVerified: true,
+    verificationToken: null,
+    verificationExpiresAt: null,
+    pendingEmail: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+}
+
+// 只支持这里用到的查询条件
+function matches(row: SessionRow, where: Where): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+        const value = row[key as keyof SessionRow]
+        if (condition && typeof condition === 'object' && !(condition instanceof Date)) {
+            const { in: list, not, gt } = condition as { in?: unknown[], not?: unknown, gt?: Date }
+            return (list === undefined || list.includes(value))
+                && (not === undefined || value !== not)
+                && (gt === undefined || (value instanceof Date && value > gt))
+        }
+        return value === condition
+    })
+}
+
+// 用内存中的会话表代替数据库；查询前让出事件循环，模拟并发请求交错执行
+function fakeSessionTable() {
+    const rows: SessionRow[] = []
+    const delay = () => new Promise(resolve => setTimeout(resolve, 10))
+    const delegate = prisma.userSession
+
+    const fake = {
+        create: async ({ data }: { data: Omit<SessionRow, 'id' | 'user' | 'previousTokenHash' | 'revokedAt'> }) => {
+            const row: SessionRow = { ...data, id: `session-${rows.length + 1}`, previousTokenHash: null, revokedAt: null, user }
+            rows.push(row)
+            return row
+        },
+        findUnique: async ({ where }: { where: Where }) => {
+            await delay()
+            return rows.find(row => matches(row, where)) ?? null
+        },
+        findMany: async ({ where }: { where: Where }) => {
+            await delay()
+            return rows.filter(row => matches(row, where))
+        },
+        updateMany: async ({ where, data }: { where: Where, data: Partial<SessionRow> }) => {
+            const matched = rows.filter(row => matches(row, where))
+            matched.forEach(row => Object.assign(row, data))
+            return { count: matched.length }
+        }
+    }
+
+    // Prisma 的模型对象是代理，直接替换其中的方法
+    const original = { ...fake }
+    for (const name of Object.keys(fake) as (keyof typeof fake)[]) {
+        original[name] = delegate[name] as never
+        delegate[name] = fake[name] as never
+    }
+
+    return {
+        rows,
+        restore() {
+            for (const name of Object.keys(original) as (keyof typeof fake)[]) {
+                delegate[name] = original[name] as never
+            }
+        }
+    }
+}
+
+function fakeRequest() {
+    return { ip: '127.0.0.1', get: () => 'spec' } as unknown as Request
+}
+
+describe('会话', () => {
+    let table: ReturnType<typeof fakeSessionTable>
+    let server: Server
+    let baseUrl: string
+    let revoked: string[][]
+
+    before(async () => {
+        const app = express()
+        app.use(express.json())
+        app.use('/api', sessionGuard)
+        app.get('/api/whoami', (req, res) => {
+            res.json({ userId: res.locals.auth?.userId ?? null })
+        })
+        setupSessionRoutes(app)
+
+        server = app.listen(0)
+        await new Promise(resolve => server.once('listening', resolve))
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    after(() => {
+        server.close()
+        table.restore()
+        setSessionRevocationHandler(() => {})
+    })
+
+    beforeEach(() => {
+        table?.restore()
+        table = fakeSessionTable()
+        revoked = []
+        setSessionRevocationHandler(sessionIds => revoked.push(sessionIds))
+        setRateLimitStore(new MemoryRateLimitStore())
+    })
+
+    async function refresh(refreshToken: string) {
+        const response = await fetch(`${baseUrl}/api/token/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken })
+        })
+        return { status: response.status, body: await response.json() as ResponseBody }
+    }
+
+    async function whoami(token?: string) {
+        const response = await fetch(`${baseUrl}/api/whoami`, {
+            headers: token ? { Authorization: `Bearer ${token}` } : {}
+        })
+        return { status: response.status, body: await response.json() as ResponseBody }
+    }
+
+    it('刷新令牌轮换后旧令牌失效，再次使用旧令牌会撤销整个会话', async () => {
+        const login = await createSession(user, fakeRequest())
+
+        const first = await refresh(login.refreshToken)
+        assert.equal(first.status, 200)
+        assert.notEqual(first.body.refreshToken, login.refreshToken)
+
+        const second = await refresh(first.body.refreshToken!)
+        assert.equal(second.status, 200)
+
+        // 上一轮的令牌被重复使用
+        const reused = await refresh(first.body.refreshToken!)
+        assert.equal(reused.body.code, 'invalid_refresh_token')
+        assert.ok(table.rows[0].revokedAt)
+        assert.deepEqual(revoked, [['session-1']])
+        assert.equal((await refresh(second.body.refreshToken!)).body.code, 'invalid_refresh_token')
+    })
+
+    it('同一个刷新令牌并发刷新时只有一个请求成功', async () => {
+        const login = await createSession(user, fakeRequest())
+
+        const results = await Promise.all([refresh(login.refreshToken), refresh(login.refreshToken)])
+        assert.deepEqual(results.map(result => result.status).sort(), [200, 401])
+        assert.ok(results.some(result => result.body.code === 'invalid_refresh_token'))
+    })
+
+    it('已过期的会话不能刷新', async () => {
+        const login = await createSession(user, fakeRequest())
+        table.rows[0].expiresAt = new Date(Date.now() - 1000)
+
+        assert.equal((await refresh(login.refreshToken)).body.code, 'invalid_refresh_token')
+    })
+
+    it('sessionGuard 拒绝已撤销会话的访问令牌，未带令牌的请求交给接口处理', async () => {
+        const login = await createSession(user, fakeRequest())
+
+        assert.deepEqual(await whoami(login.token), { status: 200, body: { userId: 'user-1' } })
+        assert.deepEqual(await whoami(), { status: 200, body: { userId: null } })
+        assert.deepEqual(await whoami('not-a-jwt'), { status: 200, body: { userId: null } })
+
+        await revokeSessions({ id: table.rows[0].id })
+        const rejected = await whoami(login.token)
+        assert.equal(rejected.status, 401)
+        assert.equal(rejected.body.code, 'invalid_token')
+    })
+
+    it('revokeSessions 只撤销仍有效的匹配会话，并断开它们的连接', async () => {
+        await createSession(user, fakeRequest())
+        await createSession(user, fakeRequest())
+        await createSession({ ...user, id: 'user-2' }, fakeRequest())
+        table.rows[1].revokedAt = new Date()
+
+        assert.deepEqual(await revokeSessions({ userId: 'user-1' }), ['session-1'])
+        assert.deepEqual(revoked, [['session-1']])
+        assert.equal(table.rows[2].revokedAt, null)
+
+        assert.deepEqual(await revokeSessions({ userId: 'user-1' }), [])
+        assert.equal(revoked.length, 1)
+    })
+})
@@ -0,0 +1,318 @@
+import prisma from '../lib/prisma'
+import { Request, Response, NextFunction, Express } from 'express'
+import { Prisma, User } from '@prisma/client'
+import crypto from 'crypto'
+import { generateToken, verifyToken, ACCESS_TOKEN_EXPIRES_IN_SECONDS } from '../utils/jwt'
+import { sendError } from '../utils/errors'
+import { responseMessage } from '../utils/messages'
+import { REFRESH_TOKEN_EXPIRES_IN_DAYS, RATE_LIMITS } from '../constants'
+import { rateLimit, rateLimitConfig } from '../utils/rateLimit'
+import { object, string, boolean, validateBody, Infer } from '../utils/validation'
+
+const refreshTokenSchema = object({
+    refreshToken: string({ max: 512 })
+})
+
+type RefreshTokenRequestBody = Infer<typeof refreshTokenSchema>
+
+const logoutAllSchema = object({
+    exceptCurrent: boolean().optional()
+})
+
+type LogoutAllRequestBody = Infer<typeof logoutAllSchema>
+
+const revokeSessionSchema = object({
+    sessionId: string({ max: 191 })
+})
+
+type RevokeSessionRequestBody = Infer<typeof revokeSessionSchema>
+
+function hashRefreshToken(refreshToken: string): string {
+    return crypto.createHash('sha256').update(refreshToken).digest('hex')
+}
+
+function refreshTokenExpiry(): Date {
+    return new Date(Date.now() + REFRESH_TOKEN_EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000)
+}
+
+export function issueAccessToken(user: User, sessionId: string): string {
+    return generateToken({
+        userId: user.id,
+        name: user.name,
+        phone: user.phone || undefined,
+        email: user.email || '',
+        sid: sessionId
+    })
+}
+
+// 每次登录对应一个设备会话，刷新令牌只保存哈希
+export async function createSession(user: User, req: Request) {
+    const refreshToken = crypto.randomBytes(48).toString('hex')
+    const session = await prisma.userSession.create({
+        data: {
+            userId: user.id,
+            refreshTokenHash: hashRefreshToken(refreshToken),
+            userAgent: req.get('user-agent')?.slice(0, 191) || null,
+            ip: req.ip || null,
+            expiresAt: refreshTokenExpiry()
+        }
+    })
+
+    return {
+        token: issueAccessToken(user, session.id),
+        refreshToken,
+        expiresIn: ACCESS_TOKEN_EXPIRES_IN_SECONDS
+    }
+}
+
+// 断开被撤销会话的 WebSocket 连接。连接可能在任一实例上，由入口注册通过房间适配器广播的实现
+let disconnectRevokedSessions: (sessionIds: string[]) => void = () => {}
+
+export function setSessionRevocationHandler(handler: (sessionIds: string[]) => void) {
+    disconnectRevokedSessions = handler
+}
+
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.userSession.findUnique({ where: { id: sessionId } })
+    return !!session && !session.revokedAt && session.expiresAt > new Date()
+}
+
+// 所有接口共用：访问令牌有效但所属会话已撤销或过期时直接拒绝，
+// 这样退出登录或撤销设备后，未过期的访问令牌也不能再调用接口
+export async function sessionGuard(req: Request, res: Response, next: NextFunction) {
+    const token = req.headers.authorization?.split(' ')[1]
+    const payload = token ? verifyToken(token) : null
+    if (!payload) {
+        // 未带令牌或令牌无效的请求交给各接口自行处理
+        return next()
+    }
+
+    try {
+        if (!(await isSessionActive(payload.sid))) {
+            return sendError(res, 'invalid_token')
+        }
+        res.locals.auth = payload
+        next()
+    } catch (error) {
+        console.error('校验会话错误:', error)
+        sendError(res, 'internal_error')
+    }
+}
+
+// 需要在读取请求体之前完成认证的接口（例如文件上传）使用，须挂在 sessionGuard 之后
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+    if (!req.headers.authorization) {
+        return sendError(res, 'unauthorized')
+    }
+    if (!res.locals.auth) {
+        return sendError(res, 'invalid_token')
+    }
+    next()
+}
+
+// 撤销匹配的会话并断开这些会话的 WebSocket 连接，返回被撤销的会话ID
+export async function revokeSessions(where: Prisma.UserSessionWhereInput): Promise<string[]> {
+    const sessions = await prisma.userSession.findMany({
+        where: { ...where, revokedAt: null },
+        select: { id: true }
+    })
+    const sessionIds = sessions.map(session => session.id)
+
+    if (sessionIds.length > 0) {
+        await prisma.userSession.updateMany({
+            where: { id: { in: sessionIds } },
+            data: { revokedAt: new Date() }
+        })
+        disconnectRevokedSessions(sessionIds)
+    }
+
+    return sessionIds
+}
+
+const refreshRateLimit = rateLimit({
+    name: 'token_refresh',
+    ...rateLimitConfig('token_refresh', RATE_LIMITS.token_refresh)
+})
+
+export function setupSessionRoutes(app: Express) {
+    app.post('/api/token/refresh', refreshRateLimit, validateBody(refreshTokenSchema), async (req: Request<{}, {}, RefreshTokenRequestBody>, res: Response) => {
+        try {
+            const { refreshToken } = req.body
+
+            const tokenHash = hashRefreshToken(refreshToken)
+            const session = await prisma.userSession.findUnique({
+                where: { refreshTokenHash: tokenHash },
+                include: { user: true }
+            })
+
+            if (!session) {
+                // 已轮换掉的旧令牌再次出现，说明令牌可能泄露，直接撤销整个会话
+                const reused = await prisma.userSession.findUnique({
+                    where: { previousTokenHash: tokenHash }
+                })
+                if (reused) {
+                    await revokeSessions({ id: reused.id })
+                    console.warn(`会话 ${reused.id} 的刷新令牌被重复使用，已撤销`)
+                }
+                return sendError(res, 'invalid_refresh_token')
+            }
+
+            if (session.revokedAt || session.expiresAt <= new Date()) {
+                return sendError(res, 'invalid_refresh_token')
+            }
+
+            // 以旧令牌为条件轮换，并发的两个请求只有一个能成功
+            const nextRefreshToken = crypto.randomBytes(48).toString('hex')
+            const rotated = await prisma.userSession.updateMany({
+                where: {
+                    id: session.id,
+                    refreshTokenHash: tokenHash,
+                    revokedAt: null,
+                    expiresAt: { gt: new Date() }
+                },
+                data: {
+                    refreshTokenHash: hashRefreshToken(nextRefreshToken),
+                    previousTokenHash: tokenHash,
+                    lastUsedAt: new Date(),
+                    expiresAt: refreshTokenExpiry()
+                }
+            })
+            if (rotated.count === 0) {
+                return sendError(res, 'invalid_refresh_token')
+            }
+
+            res.json({
+                success: true,
+                token: issueAccessToken(session.user, session.id),
+                refreshToken: nextRefreshToken,
+                expiresIn: ACCESS_TOKEN_EXPIRES_IN_SECONDS
+            })
+        } catch (error) {
+            console.error('刷新令牌错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/logout', async (req: Request, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            await revokeSessions({ id: payload.sid, userId: payload.userId })
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'logged_out')
+            })
+        } catch (error) {
+            console.error('退出登录错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/logout-all', validateBody(logoutAllSchema), async (req: Request<{}, {}, LogoutAllRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const revoked = await revokeSessions({
+                userId: payload.userId,
+                ...(req.body.exceptCurrent ? { id: { not: payload.sid } } : {})
+            })
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'logged_out_everywhere'),
+                revoked: revoked.length
+            })
+        } catch (error) {
+            console.error('退出所有设备错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.get('/api/sessions', async (req: Request, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const sessions = await prisma.userSession.findMany({
+                where: {
+                    userId: payload.userId,
+                    revokedAt: null,
+                    expiresAt: { gt: new Date() }
+                },
+                orderBy: { lastUsedAt: 'desc' }
+            })
+
+            res.json({
+                success: true,
+                sessions: sessions.map(session => ({
+                    id: session.id,
+                    userAgent: session.userAgent,
+                    ip: session.ip,
+                    createdAt: session.createdAt,
+                    lastUsedAt: session.lastUsedAt,
+                    current: session.id === payload.sid
+                }))
+            })
+        } catch (error) {
+            console.error('获取会话列表错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+
+    app.post('/api/sessions/revoke', validateBody(revokeSessionSchema), async (req: Request<{}, {}, RevokeSessionRequestBody>, res: Response) => {
+        try {
+            const authHeader = req.headers.authorization
+            if (!authHeader) {
+                return sendError(res, 'unauthorized')
+            }
+
+            const token = authHeader.split(' ')[1]
+            const payload = verifyToken(token)
+            if (!payload) {
+                return sendError(res, 'invalid_token')
+            }
+
+            const { sessionId } = req.body
+
+            const revoked = await revokeSessions({ id: sessionId, userId: payload.userId })
+            if (revoked.length === 0) {
+                return sendError(res, 'session_not_found')
+            }
+
+            res.json({
+                success: true,
+                message: responseMessage(res, 'session_revoked')
+            })
+        } catch (error) {
+            console.error('撤销会话错误:', error)
+            sendError(res, 'internal_error')
+        }
+    })
+}
@@ -0,0 +1,32 @@
+import { WebSocket } from 'ws'
+import type { ClientConnection } from '../../index'
+import { ErrorCode, ErrorParams } from '../../utils/errors'
+import { Locale } from '../../utils/locale'
+import { Liveness } from '../liveness'
+
+// 每个 WebSocket 连接一份，join 成功后写入 userId、roomId 和协商出的协议版本
+export interface ConnectionContext {
+    ws: WebSocket
+    locale: Locale
+    upgradeToken: string | null
+    liveness: Liveness
+    userId: string | null
+    roomId: string | null
+    protocolVersion: number
+}
+
+// 除 join 以外的消息只有加入房间后才会交给处理函数
+export interface JoinedContext extends ConnectionContext {
+    userId: string
+    roomId: string
+    client: ClientConnection
+}
+
+// 返回 code 时回复 error，否则视为成功，客户端带了 requestId 时回复 ack
+export type HandlerResult = {
+    code?: ErrorCode
+    params?: ErrorParams
+    extra?: object
+} | void
+
+export type MessageHandler<M> = (ctx: JoinedContext, message: M) => Promise<HandlerResult>
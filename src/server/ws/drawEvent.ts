@@ -0,0 +1,20 @@
+import { getRoomDocument, isDrawOperation, applyDrawOperation } from '../roomState'
+import { drawBatcher } from '../../index'
+import { DrawEventMessage } from '../../protocol'
+import { JoinedContext, HandlerResult } from './context'
+
+export async function handleDrawEvent(ctx: JoinedContext, message: DrawEventMessage): Promise<HandlerResult> {
+    // 被禁言的成员绘画不再广播
+    if (ctx.client.muted) {
+        return { code: 'muted' }
+    }
+
+    // 不立即转发，由批量下发定时合并后发给其他成员
+    drawBatcher.queue(ctx.roomId, ctx.userId, message.data)
+
+    // 将带元素ID的操作应用到服务端房间状态
+    if (isDrawOperation(message.data)) {
+        const document = await getRoomDocument(ctx.roomId)
+        applyDrawOperation(document, message.data)
+    }
+}
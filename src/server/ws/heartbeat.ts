@@ -0,0 +1,13 @@
+import { sendToClient } from '../../index'
+import { HeartbeatMessage } from '../../protocol'
+import { JoinedContext, HandlerResult } from './context'
+
+export async function handleHeartbeat(ctx: JoinedContext, message: HeartbeatMessage): Promise<HandlerResult> {
+    // 连接存活由 ping/pong 判断，旧客户端的心跳消息同样视为存活
+    ctx.liveness.markAlive()
+
+    sendToClient(ctx.ws, {
+        type: 'heartbeat_ack',
+        timestamp: Date.now()
+    })
+}
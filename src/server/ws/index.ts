@@ -0,0 +1,99 @@
+import { clients, sendToClient } from '../../index'
+import { canSendMessage } from '../permissions'
+import { ErrorCode, ErrorParams, wsError } from '../../utils/errors'
+import { issueFields } from '../../utils/validation'
+import { ClientMessage, ClientMessageType, ClientMessageOf } from '../../protocol'
+import { parseClientMessage } from './schemas'
+import { ConnectionContext, JoinedContext, HandlerResult, MessageHandler } from './context'
+import { handleJoin } from './join'
+import { handleHeartbeat } from './heartbeat'
+import { handleDrawEvent } from './drawEvent'
+import { handleSaveSnapshot } from './saveSnapshot'
+import { handleLayerOrderUpdate } from './layerOrder'
+import { handleModeration } from './moderation'
+import { handleSetRole } from './setRole'
+
+export type { ConnectionContext, JoinedContext, HandlerResult } from './context'
+
+const handlers: { [K in Exclude<ClientMessageType, 'join'>]: MessageHandler<ClientMessageOf<K>> } = {
+    heartbeat: handleHeartbeat,
+    draw_event: handleDrawEvent,
+    save_snapshot: handleSaveSnapshot,
+    layer_order_update: handleLayerOrderUpdate,
+    kick_member: handleModeration,
+    ban_member: handleModeration,
+    unban_member: handleModeration,
+    mute_member: handleModeration,
+    unmute_member: handleModeration,
+    set_role: handleSetRole
+}
+
+export function createConnectionContext(ws: ConnectionContext['ws'], locale: ConnectionContext['locale'], upgradeToken: string | null, liveness: ConnectionContext['liveness']): ConnectionContext {
+    return {
+        ws,
+        locale,
+        upgradeToken,
+        liveness,
+        userId: null,
+        roomId: null,
+        protocolVersion: 1
+    }
+}
+
+function replyError(ctx: ConnectionContext, action: string | undefined, requestId: string | undefined, code: ErrorCode, params?: ErrorParams, extra?: object) {
+    const error = wsError(code, ctx.locale, { action, requestId, ...extra }, params)
+    // join 失败沿用 join_error，旧客户端靠它判断加入失败
+    sendToClient(ctx.ws, action === 'join' ? { ...error, type: 'join_error' } : error)
+}
+
+function joinedContext(ctx: ConnectionContext): JoinedContext | null {
+    if (!ctx.userId || !ctx.roomId) {
+        return null
+    }
+    const client = clients.get(`${ctx.roomId}_${ctx.userId}`)
+    return client ? { ...ctx, userId: ctx.userId, roomId: ctx.roomId, client } : null
+}
+
+async function runHandler(ctx: ConnectionContext, message: ClientMessage): Promise<HandlerResult> {
+    if (message.type === 'join') {
+        return handleJoin(ctx, message)
+    }
+
+    const joined = joinedContext(ctx)
+    if (!joined) {
+        return { code: 'not_joined' }
+    }
+    if (!canSendMessage(joined.client.role, message.type)) {
+        return { code: 'permission_denied' }
+    }
+
+    const handler = handlers[message.type] as MessageHandler<ClientMessage>
+    return handler(joined, message)
+}
+
+// 校验消息并交给对应类型的处理函数，失败时回复 error，协议 2 起成功时回复 ack
+export async function dispatchMessage(ctx: ConnectionContext, raw: string) {
+    const parsed = parseClientMessage(raw)
+    if (!parsed.ok) {
+        if (parsed.code === 'validation_failed') {
+            return replyError(ctx, parsed.type, parsed.requestId, parsed.code, { fields: issueFields(parsed.issues) }, { issues: parsed.issues })
+        }
+        return replyError(ctx, parsed.type, parsed.requestId, parsed.code)
+    }
+
+    const message = parsed.message
+    let result: HandlerResult
+    try {
+        result = await runHandler(ctx, message)
+    } catch (error) {
+        console.error(`处理WebSocket消息 ${message.type} 错误:`, error)
+        result = { code: 'internal_error' }
+    }
+
+    if (result && result.code) {
+        return replyError(ctx, message.type, message.requestId, result.code, result.params, result.extra)
+    }
+    if (message.requestId && ctx.protocolVersion >= 2) {
+        sendToClient(ctx.ws, { type: 'ack', requestId: message.requestId, action: message.type })
+    }
+}
@@ -0,0 +1,134 @@
+import prisma from '../../lib/prisma'
+import { clients, sendToClient, broadcastRoomUsers, getRoomPresence } from '../../index'
+import { verifyToken } from '../../utils/jwt'
+import { isSessionActive } from '../sessions'
+import { normalizeRole } from '../permissions'
+import { cancelDeparture, scheduleDeparture } from '../presence'
+import { getRoomDocument, serializeDocument, flushRoomDocument, dropRoomDocument } from '../roomState'
+import { JoinMessage, PROTOCOL_VERSION, MIN_PROTOCOL_VERSION } from '../../protocol'
+import { ConnectionContext, HandlerResult } from './context'
+
+export async function handleJoin(ctx: ConnectionContext, message: JoinMessage): Promise<HandlerResult> {
+    // 客户端声明自己支持的最高版本，未声明的旧客户端按 1 处理，取双方都支持的最高版本
+    const protocolVersion = Math.min(message.protocolVersion ?? 1, PROTOCOL_VERSION)
+    if (protocolVersion < MIN_PROTOCOL_VERSION) {
+        const supportedVersions = { min: MIN_PROTOCOL_VERSION, max: PROTOCOL_VERSION }
+        return { code: 'unsupported_protocol_version', params: supportedVersions, extra: { supportedVersions } }
+    }
+    ctx.protocolVersion = protocolVersion
+
+    // 身份只信任 token，不再使用客户端上报的 userId
+    const payload = verifyToken(message.token || ctx.upgradeToken || '')
+    if (!payload || !(await isSessionActive(payload.sid))) {
+        return { code: 'invalid_token' }
+    }
+
+    const room = await prisma.room.findUnique({
+        where: { roomId: message.roomId }
+    })
+
+    if (!room) {
+        return { code: 'room_not_found' }
+    }
+
+    if (room.status === 'archived') {
+        return { code: 'room_archived' }
+    }
+
+    const membership = await prisma.roomMember.findUnique({
+        where: {
+            roomId_userId: {
+                roomId: room.id,
+                userId: payload.userId
+            }
+        }
+    })
+
+    if (!membership) {
+        return { code: 'not_a_member' }
+    }
+
+    // 按所有实例上的在线成员计算人数
+    const presence = await getRoomPresence(room.roomId)
+    const connectedCount = presence.filter(user => user.userId !== payload.userId).length
+
+    if (connectedCount >= room.maxUsers) {
+        return { code: 'room_full' }
+    }
+
+    const userId = payload.userId
+    const roomId = room.roomId
+
+    // 同一连接再次加入其他房间时，先按离开处理之前的房间
+    if (ctx.roomId && ctx.userId && (ctx.roomId !== roomId || ctx.userId !== userId)) {
+        const previousRoomId = ctx.roomId
+        const previousId = `${previousRoomId}_${ctx.userId}`
+        if (clients.get(previousId)?.ws === ctx.ws) {
+            clients.delete(previousId)
+            broadcastRoomUsers(previousRoomId)
+            scheduleDeparture(previousRoomId, ctx.userId)
+
+            // 和断开连接时一样，本实例上已无该房间的连接就落盘并释放房间状态
+            if (![...clients.values()].some(client => client.roomId === previousRoomId)) {
+                flushRoomDocument(previousRoomId)
+                    .then(() => dropRoomDocument(previousRoomId))
+                    .catch(error => console.error(`保存房间 ${previousRoomId} 状态失败:`, error))
+            }
+        }
+    }
+
+    ctx.userId = userId
+    ctx.roomId = roomId
+
+    // 优先使用数据库中的最新昵称，token 中的可能已过期
+    let userName = payload.name
+    try {
+        const user = await prisma.user.findUnique({ where: { id: userId } })
+        if (user && user.name) {
+            userName = user.name
+        }
+    } catch (e) {
+        console.error('获取用户昵称失败:', e)
+    }
+
+    clients.set(`${roomId}_${userId}`, {
+        ws: ctx.ws,
+        userId,
+        userName,
+        sessionId: payload.sid,
+        roomId,
+        role: normalizeRole(membership.role),
+        muted: membership.muted,
+        protocolVersion,
+        liveness: ctx.liveness
+    })
+    // 宽限期内重新连接，不再按离开处理
+    cancelDeparture(roomId, userId)
+
+    console.log(`用户 ${userName || userId} 加入房间 ${roomId} (协议版本 ${protocolVersion})`)
+
+    sendToClient(ctx.ws, {
+        type: 'joined',
+        roomId,
+        userId,
+        protocolVersion
+    })
+
+    broadcastRoomUsers(roomId)
+
+    await prisma.room.updateMany({
+        where: { roomId },
+        data: { lastActiveAt: new Date() }
+    })
+
+    // 加入后下发服务端保存的房间状态
+    const document = await getRoomDocument(roomId)
+    const state = serializeDocument(document)
+    sendToClient(ctx.ws, {
+        type: 'snapshot_data',
+        data: state.data,
+        layerOrder: state.layerOrder,
+        version: state.version
+    })
+    console.log(`向用户 ${userId} 发送房间 ${roomId} 的状态 (版本 ${state.version})`)
+}
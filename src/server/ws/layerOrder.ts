@@ -0,0 +1,16 @@
+import { broadcastToRoom } from '../../index'
+import { getRoomDocument, setLayerOrder } from '../roomState'
+import { LayerOrderUpdateMessage } from '../../protocol'
+import { JoinedContext, HandlerResult } from './context'
+
+export async function handleLayerOrderUpdate(ctx: JoinedContext, message: LayerOrderUpdateMessage): Promise<HandlerResult> {
+    broadcastToRoom(ctx.roomId, {
+        type: 'layer_order_update',
+        userId: ctx.userId,
+        data: { layerOrder: message.data.layerOrder }
+    }, ctx.userId)
+
+    // 图层顺序属于房间状态，随房间状态一起落盘
+    const document = await getRoomDocument(ctx.roomId)
+    setLayerOrder(document, message.data.layerOrder)
+}
@@ -0,0 +1,15 @@
+import { moderateMember, ModerationAction } from '../moderation'
+import { ModerationMessage, ModerationMessageType } from '../../protocol'
+import { JoinedContext, HandlerResult } from './context'
+
+const MODERATION_ACTIONS: Record<ModerationMessageType, ModerationAction> = {
+    kick_member: 'kick',
+    ban_member: 'ban',
+    unban_member: 'unban',
+    mute_member: 'mute',
+    unmute_member: 'unmute'
+}
+
+export async function handleModeration(ctx: JoinedContext, message: ModerationMessage): Promise<HandlerResult> {
+    return moderateMember(ctx.roomId, ctx.userId, message.data.userId, MODERATION_ACTIONS[message.type], message.data.reason)
+}
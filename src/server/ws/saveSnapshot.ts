@@ -0,0 +1,58 @@
+import prisma from '../../lib/prisma'
+import { sendToClient, sendRoomControl } from '../../index'
+import { getRoomDocument, replaceDocument, parseSnapshot, flushRoomDocument, dropRoomDocument } from '../roomState'
+import { createRevision } from '../revisions'
+import { SaveSnapshotMessage } from '../../protocol'
+import { JoinedContext, HandlerResult } from './context'
+
+export async function handleSaveSnapshot(ctx: JoinedContext, message: SaveSnapshotMessage): Promise<HandlerResult> {
+    const { roomId, userId } = ctx
+    const { data, layerOrder, label } = message.data
+
+    const room = await prisma.room.findUnique({
+        where: { roomId }
+    })
+    if (!room) {
+        return { code: 'room_not_found' }
+    }
+    if (room.ownerId !== userId) {
+        return { code: 'owner_only' }
+    }
+
+    const serializedLayerOrder = layerOrder ? JSON.stringify(layerOrder) : null
+    const snapshot = parseSnapshot(data)
+    if (snapshot) {
+        // 房主推送的快照覆盖服务端状态
+        const document = await getRoomDocument(roomId)
+        replaceDocument(document, snapshot.elements, layerOrder, snapshot.extra)
+        await flushRoomDocument(roomId)
+    } else {
+        // 无法解析为元素列表的旧格式快照，原样保存
+        await prisma.roomSnapshot.upsert({
+            where: { roomId: room.id },
+            update: {
+                data,
+                layerOrder: serializedLayerOrder
+            },
+            create: {
+                roomId: room.id,
+                data,
+                layerOrder: serializedLayerOrder
+            }
+        })
+        dropRoomDocument(roomId)
+    }
+    sendRoomControl({ action: 'reload_document', roomId })
+
+    const revision = await createRevision(room.id, {
+        data,
+        layerOrder: serializedLayerOrder,
+        authorId: userId,
+        label: label || null
+    })
+    sendToClient(ctx.ws, {
+        type: 'snapshot_saved',
+        revision: revision.version
+    })
+    console.log(`房主 ${userId} 保存了房间 ${roomId} 的快照 (版本 ${revision.version})`)
+}
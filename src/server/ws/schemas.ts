@@ -0,0 +1,95 @@
+import { ASSIGNABLE_ROLES } from '../permissions'
+import { ClientMessage, ClientMessageType, ClientMessageOf } from '../../protocol'
+import { object, string, number, unknown, oneOf, validate, Schema, Shape, ValidationIssue } from '../../utils/validation'
+
+// 每种消息都允许带上 requestId
+function message<S extends Shape>(shape: S) {
+    return object({
+        ...shape,
+        requestId: string({ max: 64 }).optional()
+    })
+}
+
+const moderationSchema = message({
+    data: object({
+        userId: string({ max: 191 }),
+        reason: string({ min: 0, max: 191 }).optional()
+    })
+})
+
+// 客户端可以发送的全部消息类型，type 字段之外的内容按对应的 schema 校验
+const clientMessageSchemas: { [K in ClientMessageType]: Schema<Omit<ClientMessageOf<K>, 'type'>> } = {
+    join: message({
+        roomId: string({ max: 191 }),
+        token: string({ max: 2048 }).optional(),
+        protocolVersion: number({ integer: true }).optional()
+    }),
+    heartbeat: message({}),
+    // 绘画操作的结构由 isDrawOperation 判断，无法识别的操作只转发不落盘
+    draw_event: message({
+        data: unknown()
+    }),
+    save_snapshot: message({
+        data: object({
+            data: string({ min: 0 }),
+            layerOrder: unknown().optional(),
+            label: string({ min: 0, trim: true, max: 191 }).optional()
+        })
+    }),
+    layer_order_update: message({
+        data: object({
+            layerOrder: unknown().nullable()
+        })
+    }),
+    kick_member: moderationSchema,
+    ban_member: moderationSchema,
+    unban_member: moderationSchema,
+    mute_member: moderationSchema,
+    unmute_member: moderationSchema,
+    set_role: message({
+        data: object({
+            userId: string({ max: 191 }),
+            role: oneOf(ASSIGNABLE_ROLES)
+        })
+    })
+}
+
+export type ParsedClientMessage =
+    | { ok: true, message: ClientMessage }
+    | { ok: false, code: 'invalid_request' | 'unknown_message_type', type?: string, requestId?: string }
+    | { ok: false, code: 'validation_failed', type: ClientMessageType, requestId?: string, issues: ValidationIssue[] }
+
+function isClientMessageType(type: string): type is ClientMessageType {
+    return Object.prototype.hasOwnProperty.call(clientMessageSchemas, type)
+}
+
+export function parseClientMessage(raw: string): ParsedClientMessage {
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(raw)
+    } catch (e) {
+        return { ok: false, code: 'invalid_request' }
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return { ok: false, code: 'invalid_request' }
+    }
+
+    // 校验失败时也尽量带回 requestId，方便客户端对应到请求
+    const { type, requestId: rawRequestId } = parsed as { type?: unknown, requestId?: unknown }
+    const requestId = typeof rawRequestId === 'string' ? rawRequestId.slice(0, 64) : undefined
+
+    if (typeof type !== 'string') {
+        return { ok: false, code: 'invalid_request', requestId }
+    }
+    if (!isClientMessageType(type)) {
+        return { ok: false, code: 'unknown_message_type', type, requestId }
+    }
+
+    const result = validate<object>(clientMessageSchemas[type], parsed)
+    if (!result.ok) {
+        return { ok: false, code: 'validation_failed', type, requestId, issues: result.issues }
+    }
+
+    return { ok: true, message: { ...result.value, type } as ClientMessage }
+}
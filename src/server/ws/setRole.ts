@@ -0,0 +1,32 @@
+import prisma from '../../lib/prisma'
+import { broadcastRoomUsers } from '../../index'
+import { changeMemberRole } from '../permissions'
+import { SetRoleMessage } from '../../protocol'
+import { JoinedContext, HandlerResult } from './context'
+
+export async function handleSetRole(ctx: JoinedContext, message: SetRoleMessage): Promise<HandlerResult> {
+    const { userId: targetUserId, role } = message.data
+
+    const room = await prisma.room.findUnique({ where: { roomId: ctx.roomId } })
+    if (!room || room.ownerId !== ctx.userId) {
+        return { code: 'owner_only' }
+    }
+    if (targetUserId === ctx.userId) {
+        return { code: 'cannot_change_own_role' }
+    }
+
+    const member = await prisma.roomMember.findUnique({
+        where: {
+            roomId_userId: {
+                roomId: room.id,
+                userId: targetUserId
+            }
+        }
+    })
+    if (!member) {
+        return { code: 'member_not_found' }
+    }
+
+    await changeMemberRole(room, targetUserId, role)
+    broadcastRoomUsers(ctx.roomId)
+}
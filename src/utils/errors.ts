@@ -0,0 +1,113 @@
+import { Response } from 'express'
+import { Locale, resolveLocale } from './locale'
+import { ErrorMessage } from '../protocol'
+
+interface ErrorDefinition {
+  status: number
+  message: Record<Locale, string>
+}
+
+// 错误码目录：code 保持稳定供客户端判断，message 按语言返回，{name} 为参数占位
+const ERROR_CATALOGUE = {
+  // 通用
+  internal_error: { status: 500, message: { 'zh-CN': '服务器错误，请稍后重试', en: 'Something went wrong, please try again later' } },
+  invalid_request: { status: 400, message: { 'zh-CN': '请求参数错误', en: 'Invalid request' } },
+  validation_failed: { status: 400, message: { 'zh-CN': '以下字段不合法：{fields}', en: 'Invalid fields: {fields}' } },
+  unknown_message_type: { status: 400, message: { 'zh-CN': '不支持的消息类型', en: 'Unsupported message type' } },
+  unsupported_protocol_version: { status: 400, message: { 'zh-CN': '不支持的协议版本，服务端支持 {min} 到 {max}', en: 'Unsupported protocol version, the server supports {min} to {max}' } },
+  rate_limited: { status: 429, message: { 'zh-CN': '请求过于频繁，请稍后再试', en: 'Too many requests, please try again later' } },
+  permission_denied: { status: 403, message: { 'zh-CN': '没有权限执行该操作', en: 'You do not have permission to do this' } },
+  file_required: { status: 400, message: { 'zh-CN': '请选择要上传的文件', en: 'Please choose a file to upload' } },
+  file_too_large: { status: 400, message: { 'zh-CN': '文件过大', en: 'The file is too large' } },
+  upload_failed: { status: 400, message: { 'zh-CN': '文件上传失败', en: 'File upload failed' } },
+  mail_send_failed: { status: 500, message: { 'zh-CN': '发送邮件失败，请稍后重试', en: 'Failed to send email, please try again later' } },
+
+  // 登录与账号
+  unauthorized: { status: 401, message: { 'zh-CN': '请先登录', en: 'Please log in first' } },
+  invalid_token: { status: 401, message: { 'zh-CN': 'Token无效或已过期', en: 'Your token is invalid or has expired' } },
+  invalid_credentials: { status: 401, message: { 'zh-CN': '邮箱或密码错误', en: 'Incorrect email or password' } },
+  email_not_verified: { status: 401, message: { 'zh-CN': '请先前往邮箱完成验证', en: 'Please verify your email first' } },
+  login_locked: { status: 429, message: { 'zh-CN': '登录失败次数过多，请 {retryAfter} 秒后再试', en: 'Too many failed logins, please try again in {retryAfter} seconds' } },
+  credentials_required: { status: 400, message: { 'zh-CN': '请填写邮箱和密码', en: 'Please enter your email and password' } },
+  wrong_password: { status: 400, message: { 'zh-CN': '密码错误', en: 'Incorrect password' } },
+  user_not_found: { status: 404, message: { 'zh-CN': '用户不存在', en: 'User not found' } },
+  phone_taken: { status: 400, message: { 'zh-CN': '手机号已被其他用户使用', en: 'This phone number is already in use' } },
+  email_taken: { status: 400, message: { 'zh-CN': '该邮箱已被使用', en: 'This email is already in use' } },
+  same_email: { status: 400, message: { 'zh-CN': '新邮箱不能与当前邮箱相同', en: 'The new email must be different from the current one' } },
+  invalid_reset_token: { status: 400, message: { 'zh-CN': '重置链接无效或已过期', en: 'The reset link is invalid or has expired' } },
+  invalid_refresh_token: { status: 401, message: { 'zh-CN': '刷新令牌无效或已过期', en: 'The refresh token is invalid or has expired' } },
+  session_not_found: { status: 404, message: { 'zh-CN': '会话不存在', en: 'Session not found' } },
+
+  // 房间
+  room_not_found: { status: 404, message: { 'zh-CN': '房间不存在', en: 'Room not found' } },
+  room_archived: { status: 400, message: { 'zh-CN': '房间已归档', en: 'This room has been archived' } },
+  room_not_archived: { status: 400, message: { 'zh-CN': '房间未归档', en: 'This room is not archived' } },
+  room_full: { status: 400, message: { 'zh-CN': '房间人数已满', en: 'This room is full' } },
+  room_password_incorrect: { status: 401, message: { 'zh-CN': '房间密码错误', en: 'Incorrect room password' } },
+  room_banned: { status: 403, message: { 'zh-CN': '您已被禁止加入该房间', en: 'You have been banned from this room' } },
+  not_joined: { status: 400, message: { 'zh-CN': '请先加入房间', en: 'Please join a room first' } },
+  not_a_member: { status: 403, message: { 'zh-CN': '您不是该房间成员', en: 'You are not a member of this room' } },
+  already_member: { status: 400, message: { 'zh-CN': '您已经在该房间中', en: 'You are already in this room' } },
+  owner_only: { status: 403, message: { 'zh-CN': '只有房主才能执行该操作', en: 'Only the room owner can do this' } },
+  moderator_only: { status: 403, message: { 'zh-CN': '只有房主或协管员才能执行该操作', en: 'Only the room owner or moderators can do this' } },
+  already_owner: { status: 400, message: { 'zh-CN': '您已经是房主', en: 'You are already the owner' } },
+  cannot_choose_self_successor: { status: 400, message: { 'zh-CN': '不能指定自己为继任者', en: 'You cannot choose yourself as successor' } },
+  member_id_required: { status: 400, message: { 'zh-CN': '成员ID不能为空', en: 'Member ID is required' } },
+  member_not_found: { status: 404, message: { 'zh-CN': '该用户不是房间成员', en: 'This user is not a member of the room' } },
+  cannot_change_own_role: { status: 400, message: { 'zh-CN': '不能修改自己的角色', en: 'You cannot change your own role' } },
+  invalid_target: { status: 400, message: { 'zh-CN': '不能对自己执行该操作', en: 'You cannot do this to yourself' } },
+  cannot_moderate_member: { status: 403, message: { 'zh-CN': '无权管理该成员', en: 'You cannot manage this member' } },
+  not_banned: { status: 404, message: { 'zh-CN': '该用户未被禁止', en: 'This user is not banned' } },
+  muted: { status: 403, message: { 'zh-CN': '您已被禁言', en: 'You have been muted' } },
+  max_users_below_members: { status: 400, message: { 'zh-CN': '人数上限不能小于当前成员数 {count}', en: 'User limit cannot be lower than the current member count {count}' } },
+  invalid_option: { status: 400, message: { 'zh-CN': '{field} 只能是 {values}', en: '{field} must be one of {values}' } },
+
+  // 邀请
+  invite_not_found: { status: 404, message: { 'zh-CN': '邀请不存在', en: 'Invite not found' } },
+  invalid_invite: { status: 400, message: { 'zh-CN': '邀请链接无效或已过期', en: 'The invite link is invalid or has expired' } },
+  invite_exhausted: { status: 400, message: { 'zh-CN': '邀请链接已达到使用上限', en: 'The invite link has reached its usage limit' } },
+
+  // 画板与画布
+  drawing_not_found: { status: 404, message: { 'zh-CN': '画板不存在', en: 'Drawing not found' } },
+  invalid_path_data: { status: 400, message: { 'zh-CN': '路径数据格式错误', en: 'Invalid path data' } },
+  version_not_found: { status: 404, message: { 'zh-CN': '版本不存在', en: 'Version not found' } },
+  invalid_version: { status: 400, message: { 'zh-CN': '版本号格式错误', en: 'Invalid version number' } },
+  invalid_export_format: { status: 400, message: { 'zh-CN': '导出格式只能是 json 或 svg', en: 'Export format must be json or svg' } },
+  invalid_import_file: { status: 400, message: { 'zh-CN': '导入文件格式错误', en: 'The import file is not valid' } }
+} satisfies Record<string, ErrorDefinition>
+
+export type ErrorCode = keyof typeof ERROR_CATALOGUE
+
+export type ErrorParams = Record<string, string | number>
+
+export function isErrorCode(value: string): value is ErrorCode {
+  return Object.prototype.hasOwnProperty.call(ERROR_CATALOGUE, value)
+}
+
+export function errorStatus(code: ErrorCode): number {
+  return ERROR_CATALOGUE[code].status
+}
+
+export function errorMessage(code: ErrorCode, locale: Locale, params?: ErrorParams): string {
+  const template: string = ERROR_CATALOGUE[code].message[locale]
+  return template.replace(/\{(\w+)\}/g, (match, name) => params && name in params ? String(params[name]) : match)
+}
+
+export function sendError(res: Response, code: ErrorCode, params?: ErrorParams, extra?: object) {
+  const locale = resolveLocale(res.req.get('accept-language'))
+  return res.status(errorStatus(code)).json({
+    error: errorMessage(code, locale, params),
+    code,
+    ...extra
+  })
+}
+
+// WebSocket 错误回复与 REST 使用同一套错误码和文案
+export function wsError(code: ErrorCode, locale: Locale, extra?: object, params?: ErrorParams): ErrorMessage {
+  return {
+    type: 'error',
+    code,
+    message: errorMessage(code, locale, params),
+    ...extra
+  }
+}
@@ -1,13 +1,17 @@
 import jwt from 'jsonwebtoken'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
-const JWT_EXPIRES_IN = '7d'
+// 访问令牌只在短时间内有效，过期后通过刷新令牌换取
+const JWT_EXPIRES_IN = '15m'
+
+export const ACCESS_TOKEN_EXPIRES_IN_SECONDS = 15 * 60
 
 export interface JWTPayload {
   userId: string
   name: string
   phone?: string
   email: string
+  sid: string
 }
 
 export function generateToken(payload: JWTPayload): string {
@@ -16,7 +20,29 @@ export function generateToken(payload: JWTPayload): string {
 
 export function verifyToken(token: string): JWTPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload
+    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload & { type?: string }
+    // 邀请链接等其他用途的 token 和不属于任何会话的旧 token 都不能当作登录凭证
+    return decoded.userId && decoded.sid && !decoded.type ? decoded : null
+  } catch (error) {
+    return null
+  }
+}
+
+export interface InviteTokenPayload {
+  inviteId: string
+  roomId: string
+}
+
+export function generateInviteToken(payload: InviteTokenPayload, expiresAt: Date): string {
+  return jwt.sign({ ...payload, type: 'room_invite' }, JWT_SECRET, {
+    expiresIn: Math.max(1, Math.floor((expiresAt.getTime() - Date.now()) / 1000))
+  })
+}
+
+export function verifyInviteToken(token: string): InviteTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as InviteTokenPayload & { type?: string }
+    return decoded.type === 'room_invite' ? decoded : null
   } catch (error) {
     return null
   }
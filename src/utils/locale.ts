@@ -0,0 +1,39 @@
+export type Locale = 'zh-CN' | 'en'
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN'
+
+function matchLocale(tag: string): Locale | null {
+  const language = tag.toLowerCase()
+  if (language.startsWith('zh')) {
+    return 'zh-CN'
+  }
+  if (language.startsWith('en')) {
+    return 'en'
+  }
+  return null
+}
+
+// 解析 Accept-Language，按 q 值从高到低取第一个支持的语言
+export function resolveLocale(acceptLanguage?: string | null): Locale {
+  if (!acceptLanguage) {
+    return DEFAULT_LOCALE
+  }
+
+  const candidates = acceptLanguage
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.find(param => param.trim().startsWith('q='))
+      return { tag: tag.trim(), q: q ? Number(q.trim().slice(2)) : 1 }
+    })
+    .filter(candidate => candidate.tag && Number.isFinite(candidate.q) && candidate.q > 0)
+    .sort((a, b) => b.q - a.q)
+
+  for (const candidate of candidates) {
+    const locale = matchLocale(candidate.tag)
+    if (locale) {
+      return locale
+    }
+  }
+  return DEFAULT_LOCALE
+}
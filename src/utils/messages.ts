@@ -0,0 +1,83 @@
+import { Response } from 'express'
+import { Locale, resolveLocale } from './locale'
+
+// 成功提示等非错误文案，与错误码目录一样按请求的语言返回，{name} 为参数占位
+const MESSAGE_CATALOGUE = {
+  // 账号
+  feedback_submitted: { 'zh-CN': '提交成功', en: 'Feedback submitted' },
+  reset_link_sent: { 'zh-CN': '重置链接已发送至您的邮箱', en: 'A reset link has been sent to your email' },
+  password_reset: { 'zh-CN': '密码已重置，请使用新密码登录', en: 'Your password has been reset, please log in with the new password' },
+  registered: { 'zh-CN': '注册成功，请前往邮箱验证', en: 'Registered, please check your email to verify your account' },
+  registered_mail_failed: { 'zh-CN': '注册成功，但验证邮件发送失败，请稍后重新发送', en: 'Registered, but the verification email could not be sent, please resend it later' },
+  verification_sent: { 'zh-CN': '验证邮件已发送，请前往邮箱查收', en: 'Verification email sent, please check your inbox' },
+  email_change_sent: { 'zh-CN': '验证邮件已发送至新邮箱，验证后生效', en: 'A verification email has been sent to the new address, the change takes effect once verified' },
+  logged_in: { 'zh-CN': '登录成功', en: 'Logged in' },
+  logged_out: { 'zh-CN': '已退出登录', en: 'Logged out' },
+  logged_out_everywhere: { 'zh-CN': '已退出所有设备', en: 'Logged out on all devices' },
+  session_revoked: { 'zh-CN': '会话已撤销', en: 'Session revoked' },
+  password_changed: { 'zh-CN': '修改成功', en: 'Password changed' },
+  profile_updated: { 'zh-CN': '更新成功', en: 'Profile updated' },
+
+  // 房间
+  room_created: { 'zh-CN': '房间创建成功', en: 'Room created' },
+  room_joined: { 'zh-CN': '加入房间成功', en: 'Joined the room' },
+  room_rejoined: { 'zh-CN': '已回到房间', en: 'Welcome back to the room' },
+  already_member: { 'zh-CN': '您已经在该房间中', en: 'You are already in this room' },
+  room_left: { 'zh-CN': '已退出房间', en: 'You have left the room' },
+  room_left_owner_transferred: { 'zh-CN': '已退出房间，房主已转移', en: 'You have left the room and ownership has been transferred' },
+  room_dissolved: { 'zh-CN': '房间已解散', en: 'The room has been dissolved' },
+  room_unarchived: { 'zh-CN': '房间已恢复', en: 'The room has been restored' },
+  ownership_transferred: { 'zh-CN': '房主已转让', en: 'Ownership transferred' },
+  successor_set: { 'zh-CN': '继任者已设置', en: 'Successor set' },
+  successor_cleared: { 'zh-CN': '继任者已清除', en: 'Successor cleared' },
+  member_kicked: { 'zh-CN': '已将成员移出房间', en: 'The member has been removed from the room' },
+  member_banned: { 'zh-CN': '已禁止该成员加入房间', en: 'The member has been banned from the room' },
+  member_unbanned: { 'zh-CN': '已解除禁止', en: 'The ban has been lifted' },
+  member_muted: { 'zh-CN': '已禁言该成员', en: 'The member has been muted' },
+  member_unmuted: { 'zh-CN': '已解除禁言', en: 'The member has been unmuted' },
+  role_updated: { 'zh-CN': '角色已更新', en: 'Role updated' },
+  room_settings_updated: { 'zh-CN': '房间设置已更新', en: 'Room settings updated' },
+  revision_restored: { 'zh-CN': '已恢复到指定版本', en: 'Restored to the selected version' },
+  invite_created: { 'zh-CN': '邀请链接已创建', en: 'Invite link created' },
+  invite_created_mail_failed: { 'zh-CN': '邀请链接已创建，但邀请邮件发送失败', en: 'Invite link created, but the invite email could not be sent' },
+  invite_revoked: { 'zh-CN': '邀请链接已撤销', en: 'Invite link revoked' },
+
+  // 画板与导入
+  drawing_created: { 'zh-CN': '画板创建成功', en: 'Drawing created' },
+  drawing_renamed: { 'zh-CN': '重命名成功', en: 'Drawing renamed' },
+  drawing_deleted: { 'zh-CN': '画板已删除', en: 'Drawing deleted' },
+  path_saved: { 'zh-CN': '路径已保存', en: 'Path saved' },
+  path_updated: { 'zh-CN': '路径已更新', en: 'Path updated' },
+  path_deleted: { 'zh-CN': '路径已删除', en: 'Path deleted' },
+  import_succeeded: { 'zh-CN': '导入成功', en: 'Import completed' },
+
+  // 导入文件的校验问题和提示，{field} 为出错的字段路径，如 elements[3]
+  import_invalid_json: { 'zh-CN': '文件不是有效的 JSON', en: 'The file is not valid JSON' },
+  import_invalid_svg: { 'zh-CN': '文件不是有效的 SVG', en: 'The file is not a valid SVG' },
+  import_not_object: { 'zh-CN': '文件内容必须是 JSON 对象或数组', en: 'The file must contain a JSON object or array' },
+  import_invalid_field: { 'zh-CN': '{field} 格式错误', en: '{field} is not valid' },
+  import_unsupported_version: { 'zh-CN': '不支持的版本 {version}，当前服务器最高支持版本 {max}', en: 'Unsupported version {version}, the server supports up to version {max}' },
+  import_too_many_elements: { 'zh-CN': '元素数量不能超过 {max}', en: 'The file cannot contain more than {max} elements' },
+  import_element_not_object: { 'zh-CN': '{field} 必须是对象', en: '{field} must be an object' },
+  import_element_invalid_id: { 'zh-CN': '{field}.id 必须是非空字符串', en: '{field}.id must be a non-empty string' },
+  import_element_duplicate_id: { 'zh-CN': '{field}.id 重复: {id}', en: '{field}.id is a duplicate: {id}' },
+  import_image_missing_src: { 'zh-CN': '{field} 图片元素缺少 src', en: '{field} is an image without a src' },
+  import_invalid_points: { 'zh-CN': '{field}.points 格式错误', en: '{field}.points is not valid' },
+  import_invalid_color: { 'zh-CN': '{field}.color 必须是字符串', en: '{field}.color must be a string' },
+  import_invalid_line_width: { 'zh-CN': '{field}.lineWidth 必须是正数', en: '{field}.lineWidth must be a positive number' },
+  import_asset_skipped: { 'zh-CN': '{field} 的类型 {mimeType} 不支持，已跳过', en: '{field} was skipped, type {mimeType} is not supported' }
+} satisfies Record<string, Record<Locale, string>>
+
+export type MessageKey = keyof typeof MESSAGE_CATALOGUE
+
+export type MessageParams = Record<string, string | number>
+
+export function translate(key: MessageKey, locale: Locale, params?: MessageParams): string {
+  const template: string = MESSAGE_CATALOGUE[key][locale]
+  return template.replace(/\{(\w+)\}/g, (match, name) => params && name in params ? String(params[name]) : match)
+}
+
+// 按请求的 Accept-Language 返回提示文案
+export function responseMessage(res: Response, key: MessageKey, params?: MessageParams): string {
+  return translate(key, resolveLocale(res.req.get('accept-language')), params)
+}
@@ -0,0 +1,34 @@
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../constants'
+
+export interface Pagination {
+  page: number
+  pageSize: number
+  skip: number
+  take: number
+}
+
+function toPositiveInt(value: unknown, fallback: number): number {
+  const parsed = parseInt(String(value), 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export function parsePagination(query: Record<string, unknown>): Pagination {
+  const page = toPositiveInt(query.page, 1)
+  const pageSize = Math.min(toPositiveInt(query.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE)
+
+  return {
+    page,
+    pageSize,
+    skip: (page - 1) * pageSize,
+    take: pageSize
+  }
+}
+
+export function paginationMeta(pagination: Pagination, total: number) {
+  return {
+    page: pagination.page,
+    pageSize: pagination.pageSize,
+    total,
+    totalPages: Math.ceil(total / pagination.pageSize)
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, before, after, beforeEach, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import crypto from 'crypto'
+import { hashPassword, verifyPassword, verifyDummyPassword } from './password'
+
+const PASSWORD_SALT = 'spec-salt'
+
+function legacyDigest(password: string) {
+  return crypto.createHash('sha256').update(password + PASSWORD_SALT).digest('hex')
+}
+
+describe('password', () => {
+  const originalSalt = process.env.PASSWORD_SALT
+  const scryptSpy = mock.method(crypto, 'scrypt')
+
+  before(() => {
+    process.env.PASSWORD_SALT = PASSWORD_SALT
+  })
+
+  after(() => {
+    process.env.PASSWORD_SALT = originalSalt
+    scryptSpy.mock.restore()
+  })
+
+  beforeEach(() => {
+    scryptSpy.mock.resetCalls()
+  })
+
+  it('scrypt 哈希每次使用不同的盐，正确密码通过且不需要重新哈希', async () => {
+    const first = await hashPassword('correct horse')
+    const second = await hashPassword('correct horse')
+
+    assert.match(first, /^scrypt\$16384\$8\$1\$[^$]+\$[^$]+$/)
+    assert.notEqual(first, second)
+    assert.deepEqual(await verifyPassword('correct horse', first), { valid: true, needsRehash: false })
+    assert.deepEqual(await verifyPassword('wrong horse', first), { valid: false, needsRehash: false })
+  })
+
+  it('参数低于当前配置的 scrypt 哈希验证通过后需要重新哈希', async () => {
+    const salt = crypto.randomBytes(16)
+    const hash = crypto.scryptSync('old params', salt, 64, { N: 1024, r: 8, p: 1 })
+    const stored = ['scrypt', 1024, 8, 1, salt.toString('base64'), hash.toString('base64')].join('$')
+
+    assert.deepEqual(await verifyPassword('old params', stored), { valid: true, needsRehash: true })
+    assert.deepEqual(await verifyPassword('other', stored), { valid: false, needsRehash: false })
+  })
+
+  it('格式不完整的 scrypt 哈希不通过', async () => {
+    assert.deepEqual(await verifyPassword('', 'scrypt$16384$8$1$$'), { valid: false, needsRehash: false })
+    assert.deepEqual(await verifyPassword('x', 'scrypt$16384$8$1'), { valid: false, needsRehash: false })
+  })
+
+  it('旧版 sha256 摘要：正确密码通过并需要重新哈希，错误密码和摘要本身都不通过', async () => {
+    const stored = legacyDigest('legacy pass')
+
+    assert.deepEqual(await verifyPassword('legacy pass', stored), { valid: true, needsRehash: true })
+    assert.deepEqual(await verifyPassword('wrong pass', stored), { valid: false, needsRehash: false })
+    assert.deepEqual(await verifyPassword(stored, stored), { valid: false, needsRehash: false })
+  })
+
+  it('旧版明文密码：相同才通过，通过后需要重新哈希', async () => {
+    assert.deepEqual(await verifyPassword('plain pass', 'plain pass'), { valid: true, needsRehash: true })
+    assert.deepEqual(await verifyPassword('plain pas', 'plain pass'), { valid: false, needsRehash: false })
+    assert.equal(scryptSpy.mock.callCount(), 0)
+  })
+
+  it('账号不存在时按当前参数做一次同样开销的 scrypt 计算', async () => {
+    await hashPassword('reference')
+    await verifyDummyPassword('anything')
+
+    const [real, dummy] = scryptSpy.mock.calls.map(call => call.arguments.slice(2, 4))
+    assert.equal(scryptSpy.mock.callCount(), 2)
+    assert.deepEqual(dummy, real)
+  })
+})
@@ -0,0 +1,76 @@
+import crypto from 'crypto'
+
+function scrypt(password: string, salt: Buffer, keylen: number, options: crypto.ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keylen, options, (error, key) => error ? reject(error) : resolve(key))
+  })
+}
+
+const SCRYPT_PREFIX = 'scrypt'
+const SCRYPT_N = 16384
+const SCRYPT_R = 8
+const SCRYPT_P = 1
+const KEY_LENGTH = 64
+const SALT_LENGTH = 16
+
+// 随机密码的哈希，没有对应的明文，参数与 hashPassword 一致
+const DUMMY_HASH = 'scrypt$16384$8$1$GSHKEkKchYVdNC/LhLfRdA==$HAMaYk5t1O0qeqwMddeh/yw36hN4Nms9iv3UDqAwB4EmnjJriEMuoGbZlyoNSv35DfCyhBhuhLhBICR/z6t99g=='
+
+export interface PasswordCheck {
+  valid: boolean
+  // 旧格式（明文或 sha256）验证通过后需要重新哈希
+  needsRehash: boolean
+}
+
+// 格式：scrypt$N$r$p$salt$hash（salt 和 hash 为 base64）
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH)
+  const hash = await scrypt(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P })
+  return [SCRYPT_PREFIX, SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$')
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b)
+}
+
+function sha256(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest()
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  if (stored.startsWith(`${SCRYPT_PREFIX}$`)) {
+    const [, n, r, p, salt, hash] = stored.split('$')
+    const expected = Buffer.from(hash || '', 'base64')
+    if (!salt || expected.length === 0) {
+      return { valid: false, needsRehash: false }
+    }
+
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+      N: Number(n),
+      r: Number(r),
+      p: Number(p)
+    })
+    const valid = safeEqual(actual, expected)
+    return {
+      valid,
+      needsRehash: valid && (Number(n) !== SCRYPT_N || Number(r) !== SCRYPT_R || Number(p) !== SCRYPT_P)
+    }
+  }
+
+  // 旧版 /api/reset-password 保存的 sha256(password + PASSWORD_SALT)
+  // 摘要本身不能当作明文密码使用，否则拿到数据库的人可以直接用摘要登录
+  if (/^[0-9a-f]{64}$/.test(stored)) {
+    const legacyHash = sha256(password + process.env.PASSWORD_SALT)
+    const valid = safeEqual(legacyHash, Buffer.from(stored, 'hex'))
+    return { valid, needsRehash: valid }
+  }
+
+  // 旧版注册和修改密码保存的明文，比较摘要以保证定长比较
+  const valid = safeEqual(sha256(password), sha256(stored))
+  return { valid, needsRehash: valid }
+}
+
+// 账号不存在时也做一次同样开销的校验，避免通过响应时间判断邮箱是否已注册
+export async function verifyDummyPassword(password: string): Promise<void> {
+  await verifyPassword(password, DUMMY_HASH)
+}
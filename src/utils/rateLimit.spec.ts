@@ -0,0 +1,198 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { Request, Response } from 'express'
+import {
+  MemoryRateLimitStore,
+  setRateLimitStore,
+  rateLimit,
+  getLoginLockout,
+  recordLoginFailure,
+  clearLoginFailures,
+  createMessageLimiter
+} from './rateLimit'
+import { LOGIN_LOCKOUT_THRESHOLD, LOGIN_LOCKOUT_BASE_SECONDS, LOGIN_LOCKOUT_MAX_SECONDS } from '../constants'
+
+interface ErrorBody {
+  code: string
+}
+
+function fakeRequest(ip: string, body: Record<string, string> = {}): Request {
+  const req: Partial<Request> = { ip, body, get: (() => undefined) as Request['get'] }
+  return req as Request
+}
+
+function fakeResponse(req: Request) {
+  const res = {
+    req,
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: null as ErrorBody | null,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value
+    },
+    status(code: number) {
+      res.statusCode = code
+      return res
+    },
+    json(body: ErrorBody) {
+      res.body = body
+      return res
+    }
+  }
+  return res
+}
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'] })
+    setRateLimitStore(new MemoryRateLimitStore())
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  async function hit(middleware: ReturnType<typeof rateLimit>, req: Request) {
+    const res = fakeResponse(req)
+    const next = mock.fn()
+    await middleware(req, res as unknown as Response, next)
+    return { res, passed: next.mock.callCount() === 1 }
+  }
+
+  it('同一 IP 超过次数后返回 429 和 Retry-After，窗口结束后恢复', async () => {
+    const limiter = rateLimit({ name: 'test', max: 2, windowMs: 60 * 1000 })
+    const req = fakeRequest('1.1.1.1')
+
+    assert.equal((await hit(limiter, req)).passed, true)
+    assert.equal((await hit(limiter, req)).passed, true)
+
+    const limited = await hit(limiter, req)
+    assert.equal(limited.passed, false)
+    assert.equal(limited.res.statusCode, 429)
+    assert.equal(limited.res.headers['Retry-After'], '60')
+    assert.equal(limited.res.body?.code, 'rate_limited')
+
+    // 其他 IP 不受影响
+    assert.equal((await hit(limiter, fakeRequest('2.2.2.2'))).passed, true)
+
+    mock.timers.tick(60 * 1000)
+    assert.equal((await hit(limiter, req)).passed, true)
+  })
+
+  it('按账号限流时换 IP 也会被拦下', async () => {
+    const limiter = rateLimit({
+      name: 'test',
+      max: 1,
+      windowMs: 60 * 1000,
+      accountKey: req => req.body.email
+    })
+
+    assert.equal((await hit(limiter, fakeRequest('1.1.1.1', { email: 'a@example.com' }))).passed, true)
+    assert.equal((await hit(limiter, fakeRequest('2.2.2.2', { email: 'a@example.com' }))).passed, false)
+    assert.equal((await hit(limiter, fakeRequest('3.3.3.3', { email: 'b@example.com' }))).passed, true)
+  })
+})
+
+describe('登录失败锁定', () => {
+  const account = 'user@example.com'
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'] })
+    setRateLimitStore(new MemoryRateLimitStore())
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  it('达到阈值前不锁定', async () => {
+    for (let i = 1; i < LOGIN_LOCKOUT_THRESHOLD; i++) {
+      assert.equal(await recordLoginFailure(account), 0)
+    }
+    assert.equal(await getLoginLockout(account), 0)
+  })
+
+  it('达到阈值后锁定，之后每次失败锁定时间翻倍，不超过上限', async () => {
+    for (let i = 1; i < LOGIN_LOCKOUT_THRESHOLD; i++) {
+      await recordLoginFailure(account)
+    }
+
+    assert.equal(await recordLoginFailure(account), LOGIN_LOCKOUT_BASE_SECONDS)
+    assert.equal(await getLoginLockout(account), LOGIN_LOCKOUT_BASE_SECONDS)
+    assert.equal(await recordLoginFailure(account), LOGIN_LOCKOUT_BASE_SECONDS * 2)
+    assert.equal(await recordLoginFailure(account), LOGIN_LOCKOUT_BASE_SECONDS * 4)
+
+    for (let i = 0; i < 20; i++) {
+      await recordLoginFailure(account)
+    }
+    assert.equal(await getLoginLockout(account), LOGIN_LOCKOUT_MAX_SECONDS)
+  })
+
+  it('锁定到期后解除，登录成功后清零', async () => {
+    for (let i = 0; i < LOGIN_LOCKOUT_THRESHOLD; i++) {
+      await recordLoginFailure(account)
+    }
+
+    mock.timers.tick(LOGIN_LOCKOUT_BASE_SECONDS * 1000 - 1000)
+    assert.equal(await getLoginLockout(account), 1)
+    mock.timers.tick(1000)
+    assert.equal(await getLoginLockout(account), 0)
+
+    // 失败次数仍然保留，再失败一次直接进入下一级锁定
+    assert.equal(await recordLoginFailure(account), LOGIN_LOCKOUT_BASE_SECONDS * 2)
+
+    await clearLoginFailures(account)
+    assert.equal(await getLoginLockout(account), 0)
+    assert.equal(await recordLoginFailure(account), 0)
+  })
+})
+
+describe('createMessageLimiter', () => {
+  const config = { max: 3, windowMs: 1000 }
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'] })
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  function hitTimes(limiter: ReturnType<typeof createMessageLimiter>, times: number) {
+    return Array.from({ length: times }, () => limiter.hit())
+  }
+
+  it('窗口内超过上限的消息被限制，只提示一次', () => {
+    const limiter = createMessageLimiter(config, 2)
+
+    assert.deepEqual(hitTimes(limiter, 3), ['allowed', 'allowed', 'allowed'])
+    assert.equal(limiter.firstLimited, false)
+    assert.equal(limiter.hit(), 'limited')
+    assert.equal(limiter.firstLimited, true)
+    assert.equal(limiter.hit(), 'limited')
+    assert.equal(limiter.firstLimited, false)
+
+    mock.timers.tick(config.windowMs)
+    assert.equal(limiter.hit(), 'allowed')
+  })
+
+  it('连续多个窗口超限时判定为刷消息', () => {
+    const limiter = createMessageLimiter(config, 2)
+
+    hitTimes(limiter, 5)
+    mock.timers.tick(config.windowMs)
+    assert.equal(hitTimes(limiter, 5)[4], 'limited')
+    mock.timers.tick(config.windowMs)
+    assert.deepEqual(hitTimes(limiter, 4), ['allowed', 'allowed', 'allowed', 'flood'])
+  })
+
+  it('中间隔了一个安静的窗口则重新计数', () => {
+    const limiter = createMessageLimiter(config, 2)
+
+    hitTimes(limiter, 5)
+    mock.timers.tick(config.windowMs)
+    hitTimes(limiter, 5)
+    mock.timers.tick(config.windowMs * 2)
+    assert.equal(hitTimes(limiter, 4)[3], 'limited')
+  })
+})
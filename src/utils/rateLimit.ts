@@ -0,0 +1,192 @@
+import { Request, Response, NextFunction } from 'express'
+import {
+  LOGIN_LOCKOUT_THRESHOLD,
+  LOGIN_LOCKOUT_BASE_SECONDS,
+  LOGIN_LOCKOUT_MAX_SECONDS,
+  LOGIN_FAILURE_WINDOW_SECONDS
+} from '../constants'
+import { sendError } from './errors'
+
+export interface RateLimitRecord {
+  count: number
+  resetAt: number
+  updatedAt: number
+}
+
+// 计数存储接口，默认使用内存实现，多实例部署时可替换为共享存储
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitRecord>
+  get(key: string): Promise<RateLimitRecord | null>
+  reset(key: string): Promise<void>
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private records = new Map<string, RateLimitRecord>()
+
+  constructor(cleanupIntervalMs = 60 * 1000) {
+    setInterval(() => this.cleanup(), cleanupIntervalMs).unref()
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitRecord> {
+    const now = Date.now()
+    const existing = this.records.get(key)
+    const record = existing && existing.resetAt > now
+      ? { count: existing.count + 1, resetAt: existing.resetAt, updatedAt: now }
+      : { count: 1, resetAt: now + windowMs, updatedAt: now }
+    this.records.set(key, record)
+    return record
+  }
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const record = this.records.get(key)
+    if (!record || record.resetAt <= Date.now()) {
+      return null
+    }
+    return record
+  }
+
+  async reset(key: string): Promise<void> {
+    this.records.delete(key)
+  }
+
+  private cleanup() {
+    const now = Date.now()
+    this.records.forEach((record, key) => {
+      if (record.resetAt <= now) {
+        this.records.delete(key)
+      }
+    })
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore()
+
+export function setRateLimitStore(nextStore: RateLimitStore) {
+  store = nextStore
+}
+
+export interface RateLimitConfig {
+  windowMs: number
+  max: number
+}
+
+// 允许通过环境变量覆盖单个路由的限制，格式为 "次数/秒数"，如 RATE_LIMIT_LOGIN=20/900
+export function rateLimitConfig(name: string, defaults: RateLimitConfig): RateLimitConfig {
+  const raw = process.env[`RATE_LIMIT_${name.toUpperCase()}`]
+  if (!raw) {
+    return defaults
+  }
+
+  const [max, seconds] = raw.split('/').map(Number)
+  if (!Number.isInteger(max) || max <= 0 || !Number.isFinite(seconds) || seconds <= 0) {
+    console.warn(`忽略无效的限流配置 RATE_LIMIT_${name.toUpperCase()}=${raw}`)
+    return defaults
+  }
+
+  return { max, windowMs: seconds * 1000 }
+}
+
+export interface RateLimitOptions extends RateLimitConfig {
+  name: string
+  // 账号维度的限流键，例如邮箱或手机号；返回空值时只按 IP 限流
+  accountKey?: (req: Request) => string | undefined
+}
+
+function retryAfterSeconds(resetAt: number): number {
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000))
+}
+
+export function normalizeAccountKey(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().toLowerCase() : undefined
+}
+
+export function rateLimit(options: RateLimitOptions) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const keys = [`${options.name}:ip:${req.ip}`]
+      const account = options.accountKey?.(req)
+      if (account) {
+        keys.push(`${options.name}:account:${account}`)
+      }
+
+      const records = await Promise.all(keys.map(key => store.increment(key, options.windowMs)))
+      const exceeded = records.filter(record => record.count > options.max)
+
+      if (exceeded.length > 0) {
+        const retryAfter = Math.max(...exceeded.map(record => retryAfterSeconds(record.resetAt)))
+        res.setHeader('Retry-After', String(retryAfter))
+        return sendError(res, 'rate_limited', undefined, { retryAfter })
+      }
+
+      next()
+    } catch (error) {
+      // 限流存储不可用时放行，避免影响正常业务
+      console.error('限流检查错误:', error)
+      next()
+    }
+  }
+}
+
+function loginFailureKey(account: string): string {
+  return `login_failure:${account}`
+}
+
+// 连续失败达到阈值后开始锁定，之后每多失败一次锁定时间翻倍
+function lockoutSeconds(failures: number): number {
+  if (failures < LOGIN_LOCKOUT_THRESHOLD) {
+    return 0
+  }
+  const seconds = LOGIN_LOCKOUT_BASE_SECONDS * Math.pow(2, failures - LOGIN_LOCKOUT_THRESHOLD)
+  return Math.min(seconds, LOGIN_LOCKOUT_MAX_SECONDS)
+}
+
+// 返回剩余锁定秒数，未锁定时返回 0
+export async function getLoginLockout(account: string): Promise<number> {
+  const record = await store.get(loginFailureKey(account))
+  if (!record) {
+    return 0
+  }
+  const lockedUntil = record.updatedAt + lockoutSeconds(record.count) * 1000
+  return lockedUntil > Date.now() ? retryAfterSeconds(lockedUntil) : 0
+}
+
+export async function recordLoginFailure(account: string): Promise<number> {
+  const record = await store.increment(loginFailureKey(account), LOGIN_FAILURE_WINDOW_SECONDS * 1000)
+  return lockoutSeconds(record.count)
+}
+
+export async function clearLoginFailures(account: string): Promise<void> {
+  await store.reset(loginFailureKey(account))
+}
+
+export type MessageLimitResult = 'allowed' | 'limited' | 'flood'
+
+// WebSocket 消息按连接做固定窗口计数，同步执行，不经过共享存储。
+// 连续多个窗口都超限时视为恶意刷消息，返回 flood 由调用方断开连接
+export function createMessageLimiter(config: RateLimitConfig, maxLimitedWindows: number) {
+  let windowStart = Date.now()
+  let count = 0
+  let limitedWindows = 0
+
+  return {
+    hit(): MessageLimitResult {
+      const now = Date.now()
+      if (now - windowStart >= config.windowMs) {
+        const consecutive = now - windowStart < config.windowMs * 2
+        limitedWindows = consecutive && count > config.max ? limitedWindows + 1 : 0
+        windowStart = now
+        count = 0
+      }
+
+      count++
+      if (count <= config.max) {
+        return 'allowed'
+      }
+      return limitedWindows >= maxLimitedWindows ? 'flood' : 'limited'
+    },
+    // 当前窗口内第一次超限，只在这时提示客户端
+    get firstLimited(): boolean {
+      return count === config.max + 1
+    }
+  }
+}
@@ -0,0 +1,262 @@
+import net from 'net'
+
+// Redis 协议（RESP2）的最小实现，只覆盖房间广播用到的普通命令和发布订阅，
+// 任何兼容该协议的服务（Redis、KeyDB、本地替身）都可以使用
+export type RespValue = string | number | null | RespError | RespValue[]
+
+export class RespError extends Error {}
+
+export function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = [`*${args.length}\r\n`]
+  for (const arg of args) {
+    const value = String(arg)
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`)
+  }
+  return Buffer.from(parts.join(''))
+}
+
+// 数据不完整时返回 null，等收到更多数据后再解析；能确定还差多少数据时写入 incomplete.needed（在 buffer 中的结束位置）
+export function parseReply(buffer: Buffer, start = 0, incomplete?: { needed: number }): { value: RespValue, end: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', start)
+  if (lineEnd === -1) {
+    return null
+  }
+
+  const prefix = String.fromCharCode(buffer[start])
+  const line = buffer.toString('utf8', start + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (prefix) {
+    case '+':
+      return { value: line, end: next }
+    case '-':
+      return { value: new RespError(line), end: next }
+    case ':':
+      return { value: Number(line), end: next }
+    case '$': {
+      const length = Number(line)
+      if (length < 0) {
+        return { value: null, end: next }
+      }
+      if (!Number.isInteger(length)) {
+        throw new RespError(`无法解析的 Redis 响应长度: ${line}`)
+      }
+      if (buffer.length < next + length + 2) {
+        if (incomplete) {
+          incomplete.needed = next + length + 2
+        }
+        return null
+      }
+      return { value: buffer.toString('utf8', next, next + length), end: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (!Number.isInteger(count)) {
+        throw new RespError(`无法解析的 Redis 响应长度: ${line}`)
+      }
+      if (count < 0) {
+        return { value: null, end: next }
+      }
+      const items: RespValue[] = []
+      let offset = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, offset, incomplete)
+        if (!item) {
+          return null
+        }
+        items.push(item.value)
+        offset = item.end
+      }
+      return { value: items, end: offset }
+    }
+    default:
+      throw new RespError(`无法解析的 Redis 响应: ${prefix}`)
+  }
+}
+
+interface PendingCommand {
+  resolve(value: RespValue): void
+  reject(error: Error): void
+}
+
+export interface RespClientOptions {
+  reconnectDelayMs?: number
+  // 传入时连接进入订阅模式，只能调用 subscribe / unsubscribe
+  onMessage?: (channel: string, payload: string) => void
+}
+
+export class RespClient {
+  private socket: net.Socket | null = null
+  // 收到的数据先存成分片，凑够 needed 字节后再合并解析，避免大消息每收到一片都复制一次
+  private chunks: Buffer[] = []
+  private buffered = 0
+  private needed = 0
+  private pending: PendingCommand[] = []
+  private subscriptions = new Set<string>()
+  private closed = false
+
+  constructor(private readonly url: string, private readonly options: RespClientOptions = {}) {
+    this.connect()
+  }
+
+  command(...args: (string | number)[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || this.options.onMessage) {
+        return reject(new RespError(this.socket ? '订阅模式的连接不能执行普通命令' : 'Redis 连接不可用'))
+      }
+      this.pending.push({ resolve, reject })
+      this.socket.write(encodeCommand(args))
+    })
+  }
+
+  // 订阅在断线重连后会自动恢复
+  subscribe(channel: string) {
+    if (!this.subscriptions.has(channel)) {
+      this.subscriptions.add(channel)
+      this.socket?.write(encodeCommand(['SUBSCRIBE', channel]))
+    }
+  }
+
+  unsubscribe(channel: string) {
+    if (this.subscriptions.delete(channel)) {
+      this.socket?.write(encodeCommand(['UNSUBSCRIBE', channel]))
+    }
+  }
+
+  close() {
+    this.closed = true
+    this.socket?.end()
+  }
+
+  private connect() {
+    const url = new URL(this.url)
+    const socket = net.createConnection({
+      host: url.hostname || '127.0.0.1',
+      port: Number(url.port) || 6379
+    })
+    socket.setNoDelay(true)
+    socket.on('data', chunk => this.onData(socket, chunk))
+    socket.on('error', error => console.error(`Redis 连接错误 (${url.host}):`, error.message))
+    socket.on('close', () => this.onClose(socket))
+    this.socket = socket
+    this.chunks = []
+    this.buffered = 0
+    this.needed = 0
+
+    // 认证和选库必须在其他命令之前发出，写入顺序即执行顺序
+    const setup: (string | number)[][] = []
+    if (url.password) {
+      setup.push(url.username
+        ? ['AUTH', decodeURIComponent(url.username), decodeURIComponent(url.password)]
+        : ['AUTH', decodeURIComponent(url.password)])
+    }
+    if (url.pathname.length > 1) {
+      setup.push(['SELECT', url.pathname.slice(1)])
+    }
+    for (const args of setup) {
+      this.pending.push({
+        resolve: () => {},
+        reject: error => console.error(`Redis ${args[0]} 失败:`, error.message)
+      })
+      socket.write(encodeCommand(args))
+    }
+
+    if (this.subscriptions.size > 0) {
+      socket.write(encodeCommand(['SUBSCRIBE', ...this.subscriptions]))
+    }
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer) {
+    if (socket !== this.socket) {
+      return
+    }
+    this.chunks.push(chunk)
+    this.buffered += chunk.length
+    if (this.buffered < this.needed) {
+      return
+    }
+
+    const buffer = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks, this.buffered)
+    const replies: RespValue[] = []
+    let offset = 0
+    try {
+      while (offset < buffer.length) {
+        const incomplete = { needed: 0 }
+        const reply = parseReply(buffer, offset, incomplete)
+        if (!reply) {
+          this.needed = Math.max(incomplete.needed, buffer.length + 1) - offset
+          break
+        }
+        offset = reply.end
+        replies.push(reply.value)
+      }
+    } catch (error) {
+      // 协议已经错位，之后的数据都无法对齐，只能断开重连。出错前解析出的回复照常分发
+      replies.forEach(value => this.handleReply(value))
+      this.fail(socket, error instanceof Error ? error : new RespError(String(error)))
+      return
+    }
+
+    const rest = buffer.subarray(offset)
+    this.chunks = rest.length > 0 ? [rest] : []
+    this.buffered = rest.length
+    if (rest.length === 0) {
+      this.needed = 0
+    }
+
+    replies.forEach(value => this.handleReply(value))
+  }
+
+  private fail(socket: net.Socket, error: Error) {
+    console.error('Redis 响应解析失败，重新连接:', error.message)
+    this.chunks = []
+    this.buffered = 0
+    this.needed = 0
+    // 还在等待的命令都拿不到回复了
+    this.rejectPending(error)
+    socket.destroy()
+  }
+
+  private handleReply(value: RespValue) {
+    // 订阅模式下服务端主动推送消息，订阅确认直接忽略
+    if (this.options.onMessage && Array.isArray(value)) {
+      if (value[0] === 'message' && typeof value[1] === 'string' && typeof value[2] === 'string') {
+        try {
+          this.options.onMessage(value[1], value[2])
+        } catch (error) {
+          console.error('处理 Redis 订阅消息失败:', error)
+        }
+      }
+      return
+    }
+
+    const pending = this.pending.shift()
+    if (!pending) {
+      return
+    }
+    if (value instanceof RespError) {
+      pending.reject(value)
+    } else {
+      pending.resolve(value)
+    }
+  }
+
+  private rejectPending(error: Error) {
+    const pending = this.pending.splice(0, this.pending.length)
+    for (const command of pending) {
+      command.reject(error)
+    }
+  }
+
+  private onClose(socket: net.Socket) {
+    if (socket !== this.socket) {
+      return
+    }
+    this.socket = null
+    this.rejectPending(new RespError('Redis 连接已断开'))
+
+    if (!this.closed) {
+      setTimeout(() => this.connect(), this.options.reconnectDelayMs ?? 1000).unref()
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import multer from 'multer'
+import path from 'path'
+import { MAX_IMPORT_FILE_SIZE } from '../constants'
+
+export function uniqueFilename(originalname: string): string {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9)
+  return uniqueSuffix + path.extname(originalname)
+}
+
+// Multer configuration
+const storage = multer.diskStorage({
+  destination: function (req, file, cb) {
+    cb(null, 'uploads/')
+  },
+  filename: function (req, file, cb) {
+    cb(null, uniqueFilename(file.originalname))
+  }
+})
+
+export const upload = multer({ storage: storage })
+
+// 导入文件需要先校验内容，放在内存中处理，不直接落盘
+export const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_FILE_SIZE }
+})
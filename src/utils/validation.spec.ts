@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { object, string, email, number, boolean, oneOf, unknown, array, validate, issueFields, Schema } from './validation'
+
+function issuesOf<T>(schema: Schema<T>, value: unknown) {
+  const result = validate(schema, value)
+  return result.ok ? [] : result.issues
+}
+
+describe('validation', () => {
+  it('字段缺失时报 required，optional 允许缺失但不允许 null，nullable 反之', () => {
+    const schema = object({
+      name: string(),
+      note: string().optional(),
+      parent: string().nullable(),
+      tag: string().nullable().optional()
+    })
+
+    assert.deepEqual(validate(schema, { name: 'a', parent: null }), { ok: true, value: { name: 'a', parent: null } })
+    assert.deepEqual(validate(schema, { name: 'a', parent: 'p', tag: null }), { ok: true, value: { name: 'a', parent: 'p', tag: null } })
+    assert.deepEqual(issuesOf(schema, { note: null }), [
+      { field: 'name', rule: 'required' },
+      { field: 'note', rule: 'required' },
+      { field: 'parent', rule: 'required' }
+    ])
+  })
+
+  it('字符串默认不允许为空，按 trim 后的长度检查 min、max 和格式', () => {
+    assert.deepEqual(issuesOf(string(), ''), [{ field: '', rule: 'required', expected: 1 }])
+    assert.deepEqual(validate(string({ min: 0 }), ''), { ok: true, value: '' })
+    assert.deepEqual(issuesOf(string({ min: 3, trim: true }), '  ab  '), [{ field: '', rule: 'min', expected: 3 }])
+    assert.deepEqual(issuesOf(string({ max: 2 }), 'abc'), [{ field: '', rule: 'max', expected: 2 }])
+    assert.deepEqual(issuesOf(string(), 1), [{ field: '', rule: 'type', expected: 'string' }])
+
+    assert.deepEqual(validate(email(), ' a@b.co '), { ok: true, value: 'a@b.co' })
+    assert.deepEqual(issuesOf(email(), 'a@b'), [{ field: '', rule: 'format' }])
+  })
+
+  it('数字检查类型、整数和范围，NaN 和无穷大按类型错误处理', () => {
+    const schema = number({ integer: true, min: 0, max: 10 })
+
+    assert.deepEqual(validate(schema, 10), { ok: true, value: 10 })
+    assert.deepEqual(issuesOf(schema, 1.5), [{ field: '', rule: 'integer' }])
+    assert.deepEqual(issuesOf(schema, -1), [{ field: '', rule: 'min', expected: 0 }])
+    assert.deepEqual(issuesOf(schema, 11), [{ field: '', rule: 'max', expected: 10 }])
+    assert.deepEqual(issuesOf(schema, '1'), [{ field: '', rule: 'type', expected: 'number' }])
+    assert.deepEqual(issuesOf(number(), NaN), [{ field: '', rule: 'type', expected: 'number' }])
+    assert.deepEqual(issuesOf(number(), Infinity), [{ field: '', rule: 'type', expected: 'number' }])
+    assert.deepEqual(issuesOf(boolean(), 'true'), [{ field: '', rule: 'type', expected: 'boolean' }])
+  })
+
+  it('oneOf 只接受列出的值，并在 expected 中列出可选值', () => {
+    const schema = oneOf(['editor', 'viewer'])
+
+    assert.deepEqual(validate(schema, 'viewer'), { ok: true, value: 'viewer' })
+    assert.deepEqual(issuesOf(schema, 'owner'), [{ field: '', rule: 'enum', expected: 'editor, viewer' }])
+    assert.deepEqual(issuesOf(schema, 1), [{ field: '', rule: 'enum', expected: 'editor, viewer' }])
+  })
+
+  it('数组默认不允许为空，超出长度范围时不再逐项检查', () => {
+    const schema = array(number(), { max: 2 })
+
+    assert.deepEqual(validate(schema, [1, 2]), { ok: true, value: [1, 2] })
+    assert.deepEqual(issuesOf(schema, []), [{ field: '', rule: 'required', expected: 1 }])
+    assert.deepEqual(issuesOf(schema, ['a', 'b', 'c']), [{ field: '', rule: 'max', expected: 2 }])
+    assert.deepEqual(issuesOf(array(number(), { min: 2 }), [1]), [{ field: '', rule: 'min', expected: 2 }])
+    assert.deepEqual(validate(array(number(), { min: 0 }), []), { ok: true, value: [] })
+    assert.deepEqual(issuesOf(schema, {}), [{ field: '', rule: 'type', expected: 'array' }])
+  })
+
+  it('嵌套对象和数组的问题带完整字段路径，导入时据此提示出错的位置', () => {
+    const schema = object({
+      source: object({ name: string({ min: 0 }).nullable().optional() }).nullable().optional(),
+      elements: unknown(),
+      assets: array(object({ url: string(), mimeType: string() }), { min: 0 }).nullable().optional()
+    })
+
+    const issues = issuesOf(schema, {
+      source: { name: 1 },
+      assets: [
+        { url: 'a', mimeType: 'image/png' },
+        { url: 'b', mimeType: 'image/png' },
+        { url: '', mimeType: 2 },
+        'asset'
+      ]
+    })
+    assert.deepEqual(issues.map(issue => [issue.field, issue.rule]), [
+      ['source.name', 'type'],
+      ['elements', 'required'],
+      ['assets[2].url', 'required'],
+      ['assets[2].mimeType', 'type'],
+      ['assets[3]', 'type']
+    ])
+    assert.equal(issueFields(issues), 'source.name, elements, assets[2].url, assets[2].mimeType, assets[3]')
+  })
+
+  it('未声明的字段被丢弃，请求体不是对象时报 body', () => {
+    const schema = object({ name: string(), count: number().optional() })
+
+    assert.deepEqual(validate(schema, { name: 'a', isAdmin: true }), { ok: true, value: { name: 'a' } })
+    assert.deepEqual(issuesOf(schema, []), [{ field: 'body', rule: 'type', expected: 'object' }])
+    assert.deepEqual(issuesOf(schema, null), [{ field: '', rule: 'required' }])
+  })
+})
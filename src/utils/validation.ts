@@ -0,0 +1,211 @@
+import { Request, Response, NextFunction } from 'express'
+import { sendError } from './errors'
+
+export type IssueRule = 'required' | 'type' | 'min' | 'max' | 'integer' | 'enum' | 'format'
+
+// 校验失败的字段，field 为字段路径，如 paths[3].id
+export interface ValidationIssue {
+  field: string
+  rule: IssueRule
+  expected?: string | number
+}
+
+type Checker<T> = (value: unknown, field: string, issues: ValidationIssue[]) => T
+
+export class Schema<T> {
+  constructor(protected readonly checker: Checker<T>) {}
+
+  check(value: unknown, field: string, issues: ValidationIssue[]): T {
+    if (value === undefined || value === null) {
+      issues.push({ field, rule: 'required' })
+      return value as T
+    }
+    return this.checker(value, field, issues)
+  }
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema<T>((value, field, issues) => this.check(value, field, issues))
+  }
+
+  nullable(): Schema<T | null> {
+    return new NullableSchema<T>((value, field, issues) => this.check(value, field, issues))
+  }
+}
+
+class NullableSchema<T> extends Schema<T | null> {
+  check(value: unknown, field: string, issues: ValidationIssue[]): T | null {
+    if (value === null) {
+      return null
+    }
+    return this.checker(value, field, issues)
+  }
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional = true
+
+  check(value: unknown, field: string, issues: ValidationIssue[]): T | undefined {
+    if (value === undefined) {
+      return undefined
+    }
+    return this.checker(value, field, issues)
+  }
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+export type Shape = Record<string, Schema<any>>
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never }[keyof S]
+
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>
+
+export type InferShape<S extends Shape> =
+  { [K in RequiredKeys<S>]: Infer<S[K]> } &
+  { [K in OptionalKeys<S>]?: Infer<S[K]> }
+
+interface StringOptions {
+  min?: number
+  max?: number
+  trim?: boolean
+  pattern?: RegExp
+}
+
+// 默认不允许空字符串，与原先 if (!value) 的判断保持一致
+export function string(options: StringOptions = {}): Schema<string> {
+  const min = options.min ?? 1
+  return new Schema((value, field, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ field, rule: 'type', expected: 'string' })
+      return value as string
+    }
+    const result = options.trim ? value.trim() : value
+    if (result.length < min) {
+      issues.push({ field, rule: min === 1 && result.length === 0 ? 'required' : 'min', expected: min })
+    } else if (options.max !== undefined && result.length > options.max) {
+      issues.push({ field, rule: 'max', expected: options.max })
+    } else if (options.pattern && !options.pattern.test(result)) {
+      issues.push({ field, rule: 'format' })
+    }
+    return result
+  })
+}
+
+export function email(): Schema<string> {
+  return string({ trim: true, max: 191, pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ })
+}
+
+interface NumberOptions {
+  integer?: boolean
+  min?: number
+  max?: number
+}
+
+export function number(options: NumberOptions = {}): Schema<number> {
+  return new Schema((value, field, issues) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push({ field, rule: 'type', expected: 'number' })
+      return value as number
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      issues.push({ field, rule: 'integer' })
+    } else if (options.min !== undefined && value < options.min) {
+      issues.push({ field, rule: 'min', expected: options.min })
+    } else if (options.max !== undefined && value > options.max) {
+      issues.push({ field, rule: 'max', expected: options.max })
+    }
+    return value
+  })
+}
+
+export function boolean(): Schema<boolean> {
+  return new Schema((value, field, issues) => {
+    if (typeof value !== 'boolean') {
+      issues.push({ field, rule: 'type', expected: 'boolean' })
+    }
+    return value as boolean
+  })
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return new Schema((value, field, issues) => {
+    if (typeof value !== 'string' || !values.includes(value as T)) {
+      issues.push({ field, rule: 'enum', expected: values.join(', ') })
+    }
+    return value as T
+  })
+}
+
+// 结构由业务代码自行解析的字段，只要求存在
+export function unknown(): Schema<unknown> {
+  return new Schema(value => value)
+}
+
+interface ArrayOptions {
+  min?: number
+  max?: number
+}
+
+export function array<T>(item: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  const min = options.min ?? 1
+  return new Schema((value, field, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ field, rule: 'type', expected: 'array' })
+      return value as T[]
+    }
+    if (value.length < min) {
+      issues.push({ field, rule: min === 1 ? 'required' : 'min', expected: min })
+      return value
+    }
+    if (options.max !== undefined && value.length > options.max) {
+      issues.push({ field, rule: 'max', expected: options.max })
+      return value
+    }
+    return value.map((entry, index) => item.check(entry, `${field}[${index}]`, issues))
+  })
+}
+
+// 未声明的字段会被丢弃，处理函数只能拿到校验过的数据
+export function object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+  return new Schema((value, field, issues) => {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      issues.push({ field: field || 'body', rule: 'type', expected: 'object' })
+      return value as InferShape<S>
+    }
+
+    const source = value as Record<string, unknown>
+    const result: Record<string, unknown> = {}
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key].check(source[key], field ? `${field}.${key}` : key, issues)
+      if (parsed !== undefined) {
+        result[key] = parsed
+      }
+    }
+    return result as InferShape<S>
+  })
+}
+
+export type ValidationResult<T> =
+  | { ok: true, value: T }
+  | { ok: false, issues: ValidationIssue[] }
+
+export function validate<T>(schema: Schema<T>, value: unknown): ValidationResult<T> {
+  const issues: ValidationIssue[] = []
+  const parsed = schema.check(value, '', issues)
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, value: parsed }
+}
+
+export function issueFields(issues: ValidationIssue[]): string {
+  return [...new Set(issues.map(issue => issue.field))].join(', ')
+}
+
+export function validateBody<T>(schema: Schema<T>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const result = validate(schema, req.body ?? {})
+    if (!result.ok) {
+      return sendError(res, 'validation_failed', { fields: issueFields(result.issues) }, { issues: result.issues })
+    }
+    req.body = result.value
+    next()
+  }
+}